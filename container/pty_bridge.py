@@ -0,0 +1,276 @@
+#!/usr/bin/env python3
+"""
+Serve one WebSocket connection attached to a shell in a pseudo-terminal.
+
+Usage: pty_bridge.py PORT TOKEN
+
+The shell inherits the bridge's working directory and environment, and the
+bridge exits once the connection closes or the shell exits. Only a handshake
+carrying `?token=TOKEN` is accepted, `cols` and `rows` set the initial size.
+
+Client frames: binary frames and `{"type": "input", "data": "..."}` are typed
+into the terminal, `{"type": "resize", "cols": 120, "rows": 40}` resizes it.
+Server frames: terminal output as binary frames, then
+`{"type": "exit", "code": 0}` once the shell exits.
+"""
+import base64
+import fcntl
+import hashlib
+import json
+import os
+import pty
+import select
+import signal
+import socket
+import struct
+import sys
+import termios
+from urllib.parse import parse_qs, urlsplit
+
+GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+ACCEPT_TIMEOUT = 30
+MAX_HANDSHAKE = 65536
+
+OP_CONTINUATION = 0x0
+OP_TEXT = 0x1
+OP_BINARY = 0x2
+OP_CLOSE = 0x8
+OP_PING = 0x9
+OP_PONG = 0xA
+
+
+class Rejected(Exception):
+    pass
+
+
+def read_handshake(conn):
+    data = b''
+    while b'\r\n\r\n' not in data:
+        chunk = conn.recv(4096)
+        if not chunk or len(data) > MAX_HANDSHAKE:
+            raise Rejected('incomplete handshake')
+        data += chunk
+    head, rest = data.split(b'\r\n\r\n', 1)
+    lines = head.decode('latin-1').split('\r\n')
+    target = lines[0].split(' ')[1] if ' ' in lines[0] else '/'
+    headers = {}
+    for line in lines[1:]:
+        name, _, value = line.partition(':')
+        headers[name.strip().lower()] = value.strip()
+    return parse_qs(urlsplit(target).query), headers, rest
+
+
+def accept_client(conn, token):
+    """Complete the upgrade and return the initial size and unread bytes."""
+    query, headers, rest = read_handshake(conn)
+    key = headers.get('sec-websocket-key')
+    if not key or query.get('token', [''])[0] != token:
+        conn.sendall(b'HTTP/1.1 403 Forbidden\r\nContent-Length: 0\r\n\r\n')
+        raise Rejected('invalid token')
+    digest = hashlib.sha1((key + GUID).encode()).digest()
+    conn.sendall(
+        b'HTTP/1.1 101 Switching Protocols\r\n'
+        b'Upgrade: websocket\r\n'
+        b'Connection: Upgrade\r\n'
+        b'Sec-WebSocket-Accept: ' + base64.b64encode(digest) + b'\r\n\r\n'
+    )
+
+    def size(name, default):
+        try:
+            return max(1, min(int(query.get(name, [default])[0]), 1000))
+        except ValueError:
+            return default
+
+    return size('cols', 80), size('rows', 24), rest
+
+
+def encode_frame(opcode, payload):
+    length = len(payload)
+    if length < 126:
+        header = struct.pack('!BB', 0x80 | opcode, length)
+    elif length < 65536:
+        header = struct.pack('!BBH', 0x80 | opcode, 126, length)
+    else:
+        header = struct.pack('!BBQ', 0x80 | opcode, 127, length)
+    return header + payload
+
+
+def unmask(payload, mask):
+    repeated = (mask * (len(payload) // 4 + 1))[:len(payload)]
+    value = int.from_bytes(payload, 'big') ^ int.from_bytes(repeated, 'big')
+    return value.to_bytes(len(payload), 'big')
+
+
+class FrameReader:
+    """Buffer socket data and yield complete (opcode, payload) messages."""
+
+    def __init__(self):
+        self.buffer = b''
+        self.fragments = []
+        self.opcode = None
+
+    def feed(self, data):
+        self.buffer += data
+        while True:
+            frame = self.next_frame()
+            if frame is None:
+                return
+            fin, opcode, payload = frame
+            if opcode >= OP_CLOSE:
+                yield opcode, payload
+                continue
+            if opcode != OP_CONTINUATION:
+                self.opcode = opcode
+            self.fragments.append(payload)
+            if fin:
+                yield self.opcode, b''.join(self.fragments)
+                self.fragments = []
+
+    def next_frame(self):
+        buffer = self.buffer
+        if len(buffer) < 2:
+            return None
+        first, second = buffer[0], buffer[1]
+        length = second & 0x7F
+        offset = 2
+        if length == 126:
+            if len(buffer) < 4:
+                return None
+            length = struct.unpack('!H', buffer[2:4])[0]
+            offset = 4
+        elif length == 127:
+            if len(buffer) < 10:
+                return None
+            length = struct.unpack('!Q', buffer[2:10])[0]
+            offset = 10
+        mask = None
+        if second & 0x80:
+            if len(buffer) < offset + 4:
+                return None
+            mask = buffer[offset:offset + 4]
+            offset += 4
+        if len(buffer) < offset + length:
+            return None
+        payload = buffer[offset:offset + length]
+        self.buffer = buffer[offset + length:]
+        if mask:
+            payload = unmask(payload, mask)
+        return bool(first & 0x80), first & 0x0F, payload
+
+
+def resize(fd, cols, rows):
+    fcntl.ioctl(fd, termios.TIOCSWINSZ, struct.pack('HHHH', rows, cols, 0, 0))
+
+
+def write_all(fd, data):
+    while data:
+        written = os.write(fd, data)
+        data = data[written:]
+
+
+def handle_message(fd, payload):
+    try:
+        message = json.loads(payload)
+    except ValueError:
+        return
+    if not isinstance(message, dict):
+        return
+    if message.get('type') == 'input' and isinstance(message.get('data'), str):
+        write_all(fd, message['data'].encode())
+    elif message.get('type') == 'resize':
+        try:
+            resize(fd, int(message['cols']), int(message['rows']))
+        except (KeyError, TypeError, ValueError):
+            pass
+
+
+def spawn_shell():
+    pid, fd = pty.fork()
+    if pid == 0:
+        if os.environ.get('TERM', 'dumb') == 'dumb':
+            os.environ['TERM'] = 'xterm-256color'
+        shell = os.environ.get('SHELL') or '/bin/bash'
+        os.execvp(shell, [shell, '-l'])
+    return pid, fd
+
+
+def serve(conn, cols, rows, pending):
+    pid, fd = spawn_shell()
+    resize(fd, cols, rows)
+    reader = FrameReader()
+    shell_exited = False
+
+    def receive(data):
+        """Handle client data, returning False once the client closes."""
+        for opcode, payload in reader.feed(data):
+            if opcode == OP_CLOSE:
+                conn.sendall(encode_frame(OP_CLOSE, payload[:2]))
+                return False
+            if opcode == OP_PING:
+                conn.sendall(encode_frame(OP_PONG, payload))
+            elif opcode == OP_BINARY:
+                write_all(fd, payload)
+            elif opcode == OP_TEXT:
+                handle_message(fd, payload)
+        return True
+
+    open_ = receive(pending)
+    while open_:
+        readable, _, _ = select.select([conn, fd], [], [])
+        if fd in readable:
+            try:
+                output = os.read(fd, 65536)
+            except OSError:
+                output = b''
+            if not output:
+                shell_exited = True
+                break
+            conn.sendall(encode_frame(OP_BINARY, output))
+        if conn in readable:
+            data = conn.recv(65536)
+            open_ = bool(data) and receive(data)
+
+    if not shell_exited:
+        os.kill(pid, signal.SIGHUP)
+    _, status = os.waitpid(pid, 0)
+    os.close(fd)
+    if shell_exited:
+        code = os.waitstatus_to_exitcode(status)
+        exit_message = json.dumps({'type': 'exit', 'code': code}).encode()
+        conn.sendall(encode_frame(OP_TEXT, exit_message))
+        conn.sendall(encode_frame(OP_CLOSE, struct.pack('!H', 1000)))
+
+
+def main():
+    port, token = int(sys.argv[1]), sys.argv[2]
+    listener = socket.socket(socket.AF_INET, socket.SOCK_STREAM)
+    listener.bind(('0.0.0.0', port))
+    listener.listen(1)
+    listener.settimeout(ACCEPT_TIMEOUT)
+    print('listening', flush=True)
+
+    # Keep accepting until the expected client arrives or nobody shows up
+    while True:
+        try:
+            conn, _ = listener.accept()
+        except socket.timeout:
+            sys.exit('No client connected')
+        conn.settimeout(ACCEPT_TIMEOUT)
+        try:
+            cols, rows, pending = accept_client(conn, token)
+        except (Rejected, OSError):
+            conn.close()
+            continue
+        conn.settimeout(None)
+        listener.close()
+        try:
+            serve(conn, cols, rows, pending)
+        except OSError:
+            pass
+        finally:
+            conn.close()
+        return
+
+
+if __name__ == '__main__':
+    main()
@@ -1,19 +1,24 @@
 import { OpenAPIHono } from '@hono/zod-openapi'
+import { type AuthVariables } from './auth';
+import { errorBody, handleError } from './errors';
 import { type Env } from './types';
 
 export function createApp() {
-  return new OpenAPIHono<{ Bindings: Env }>({
+  const app = new OpenAPIHono<{ Bindings: Env; Variables: AuthVariables }>({
     defaultHook: (result, c) => {
       if (!result.success) {
         return c.json(
-          {
-            ok: false,
-            error: result.error.issues,
-            source: 'ZodError',
-          },
+          errorBody(
+            'VALIDATION_FAILED',
+            'Request validation failed',
+            'ZodError',
+            result.error.issues
+          ),
           422
         )
       }
     },
   });
+  app.onError(handleError);
+  return app;
 }
\ No newline at end of file
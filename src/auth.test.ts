@@ -0,0 +1,133 @@
+import { Hono } from 'hono';
+import { describe, expect, it } from 'vitest';
+import { requireAuth, requirements, type TokenClaims } from './auth';
+import { type Env } from './types';
+
+describe('requirements', () => {
+  it('needs read access for GET requests', () => {
+    expect(requirements('GET', '/api/sandbox/box-1/files/read')).toEqual({
+      identity: 'box-1',
+      scope: 'files:read',
+    });
+  });
+
+  it('needs write access for mutating requests', () => {
+    expect(requirements('POST', '/api/sandbox/box-1/commands')).toEqual({
+      identity: 'box-1',
+      scope: 'commands:write',
+    });
+    expect(requirements('DELETE', '/api/sandbox/box-1/processes/p1')).toEqual(
+      { identity: 'box-1', scope: 'processes:write' }
+    );
+  });
+
+  it('treats read-only POST actions as reads', () => {
+    for (const action of ['read', 'list', 'exists', 'search', 'glob']) {
+      expect(
+        requirements('POST', `/api/sandbox/box-1/files/${action}`).scope
+      ).toBe('files:read');
+    }
+  });
+
+  it('only applies the read-only actions to POST', () => {
+    expect(requirements('PUT', '/api/sandbox/box-1/files/read').scope).toBe(
+      'files:write'
+    );
+    expect(requirements('DELETE', '/api/sandbox/box-1/files/list').scope).toBe(
+      'files:write'
+    );
+  });
+
+  it('needs write access for WebSocket upgrades', () => {
+    expect(
+      requirements('GET', '/api/sandbox/box-1/terminal', true).scope
+    ).toBe('terminal:write');
+  });
+
+  it('uses the sandbox group for the sandbox itself', () => {
+    expect(requirements('GET', '/api/sandbox/box-1')).toEqual({
+      identity: 'box-1',
+      scope: 'sandbox:read',
+    });
+    expect(requirements('POST', '/api/sandbox')).toEqual({
+      identity: undefined,
+      scope: 'sandbox:write',
+    });
+  });
+
+  it('decodes the identity', () => {
+    const { identity } = requirements('GET', '/api/sandbox/my%20box/git/log');
+    expect(identity).toBe('my box');
+  });
+
+  it('scopes other resources by their name', () => {
+    expect(requirements('GET', '/api/sandboxes')).toEqual({
+      identity: undefined,
+      scope: 'sandboxes:read',
+    });
+    expect(requirements('PUT', '/api/templates/node-app')).toEqual({
+      identity: undefined,
+      scope: 'templates:write',
+    });
+  });
+});
+
+describe('requireAuth for terminals', () => {
+  const env = { AUTH_TOKEN_SECRET: 'secret' } as Env;
+  const app = new Hono<{ Bindings: Env }>()
+    .use('/api/*', requireAuth())
+    .get('/api/sandbox/:identity/terminal', (c) => c.text('attached'));
+
+  function base64Url(bytes: Uint8Array) {
+    return Buffer.from(bytes).toString('base64url');
+  }
+
+  async function sign(claims: TokenClaims) {
+    const payload = base64Url(new TextEncoder().encode(JSON.stringify(claims)));
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('secret'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      key,
+      new TextEncoder().encode(payload)
+    );
+    return `${payload}.${base64Url(new Uint8Array(signature))}`;
+  }
+
+  async function connect(claims: TokenClaims, upgrade = true) {
+    const query = new URLSearchParams({ access_token: await sign(claims) });
+    return app.request(
+      `/api/sandbox/box-1/terminal?${query}`,
+      { headers: upgrade ? { Upgrade: 'websocket' } : {} },
+      env
+    );
+  }
+
+  it('accepts a token from the query for upgrades', async () => {
+    const response = await connect({ scopes: ['terminal:write'] });
+    expect(await response.text()).toBe('attached');
+  });
+
+  it('needs the write scope to attach', async () => {
+    const response = await connect({ scopes: ['terminal:read'] });
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      error: { message: 'Missing scope terminal:write' },
+    });
+  });
+
+  it('checks the identity of the token', async () => {
+    const response = await connect({ identities: ['box-2'] });
+    expect(response.status).toBe(403);
+  });
+
+  it('ignores the query token without an upgrade', async () => {
+    const response = await connect({ scopes: ['terminal:write'] }, false);
+    expect(response.status).toBe(401);
+  });
+});
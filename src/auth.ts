@@ -0,0 +1,270 @@
+import { createMiddleware } from 'hono/factory';
+import { errorBody } from './errors';
+import { type Env } from './types';
+
+/**
+ * Claims carried by an HMAC-signed bearer token. Tokens are encoded as
+ * `base64url(JSON claims).base64url(HMAC-SHA256(claims, AUTH_TOKEN_SECRET))`.
+ */
+export interface TokenClaims {
+  /** Subject the token was issued to */
+  sub?: string;
+  /** Sandbox identities the token may access; omitted or `*` means any */
+  identities?: string[];
+  /** Route group scopes such as `files:read` or `commands`; omitted means any */
+  scopes?: string[];
+  /** Expiry as seconds since the epoch */
+  exp?: number;
+}
+
+export interface AuthContext {
+  type: 'apiKey' | 'token';
+  subject?: string;
+  identities: string[];
+  scopes: string[];
+}
+
+export type AuthVariables = {
+  auth: AuthContext;
+};
+
+/**
+ * POST routes that only read state. Everything else except GET needs the
+ * write scope of its route group.
+ */
+const READ_ONLY_ACTIONS = new Set([
+  'read',
+  'list',
+  'exists',
+  'validate',
+  'search',
+  'glob',
+]);
+
+const PUBLIC_PATHS = new Set(['/api/doc']);
+
+const encoder = new TextEncoder();
+
+class AuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: 401 | 403 | 500,
+    readonly code = status === 500 ? 'AUTH_NOT_CONFIGURED' : 'UNAUTHORIZED'
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function base64UrlDecode(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function splitKeys(value?: string) {
+  return (value ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+async function digest(value: string) {
+  return crypto.subtle.digest('SHA-256', encoder.encode(value));
+}
+
+/**
+ * Compare against every configured key using digests so neither the key
+ * length nor its position in the list leaks through timing.
+ */
+async function matchesApiKey(candidate: string, keys: string[]) {
+  const candidateDigest = await digest(candidate);
+  let matched = false;
+  for (const key of keys) {
+    if (crypto.subtle.timingSafeEqual(candidateDigest, await digest(key))) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+async function verifyToken(token: string, secret: string) {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  let valid = false;
+  try {
+    valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(payload)
+    );
+  } catch {
+    return null;
+  }
+  if (!valid) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(payload))
+    ) as TokenClaims;
+    if (claims.exp !== undefined && claims.exp * 1000 < Date.now()) {
+      throw new AuthError('Token has expired', 401);
+    }
+    return claims;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+async function authenticate(
+  env: Env,
+  apiKey?: string,
+  bearer?: string
+): Promise<AuthContext> {
+  const keys = splitKeys(env.API_KEYS);
+  if (keys.length === 0 && !env.AUTH_TOKEN_SECRET) {
+    throw new AuthError('Authentication is not configured', 500);
+  }
+
+  const credential = apiKey ?? bearer;
+  if (!credential) {
+    throw new AuthError('Missing API key or bearer token', 401);
+  }
+  if (keys.length > 0 && (await matchesApiKey(credential, keys))) {
+    return { type: 'apiKey', identities: ['*'], scopes: ['*'] };
+  }
+  if (bearer && env.AUTH_TOKEN_SECRET) {
+    const claims = await verifyToken(bearer, env.AUTH_TOKEN_SECRET);
+    if (claims) {
+      return {
+        type: 'token',
+        subject: claims.sub,
+        identities: claims.identities ?? ['*'],
+        scopes: claims.scopes ?? ['*'],
+      };
+    }
+  }
+  throw new AuthError('Invalid API key or bearer token', 401);
+}
+
+/**
+ * Work out the sandbox identity and route group scope a request needs.
+ * Paths look like `/api/sandbox/{identity}/{group}/...`; other top-level
+ * resources such as `/api/templates` are their own group. WebSocket upgrades
+ * are interactive, so they need write access even though they are GETs.
+ */
+export function requirements(method: string, path: string, upgrade = false) {
+  const [, , resource, identity, group, ...rest] = path.split('/');
+  const action = rest[rest.length - 1];
+  const readOnly =
+    method === 'GET'
+      ? !upgrade
+      : method === 'POST' && READ_ONLY_ACTIONS.has(action);
+  const access = readOnly ? 'read' : 'write';
+  if (resource !== 'sandbox') {
+    return { identity: undefined, scope: `${resource}:${access}` };
+  }
+  return {
+    identity: identity ? decodeURIComponent(identity) : undefined,
+    scope: `${group ?? 'sandbox'}:${access}`,
+  };
+}
+
+export function hasScope(granted: string[], required: string) {
+  const [group, access] = required.split(':');
+  return granted.some(
+    (scope) =>
+      scope === '*' ||
+      scope === group ||
+      scope === required ||
+      // Write access to a group implies read access
+      (access === 'read' && scope === `${group}:write`)
+  );
+}
+
+export function canAccessIdentity(auth: AuthContext, identity: string) {
+  return auth.identities.some(
+    (allowed) => allowed === '*' || allowed === identity
+  );
+}
+
+/**
+ * Authenticates `/api/*` requests with an API key (`X-API-Key` header or
+ * bearer) or an HMAC-signed bearer token, then checks the token's identity
+ * and route group scopes against the request. WebSocket upgrades may pass
+ * the bearer as an `access_token` query parameter instead.
+ */
+export function requireAuth() {
+  return createMiddleware<{ Bindings: Env; Variables: AuthVariables }>(
+    async (c, next) => {
+      if (c.req.method === 'OPTIONS' || PUBLIC_PATHS.has(c.req.path)) {
+        return next();
+      }
+
+      const authorization = c.req.header('Authorization');
+      const upgrade = c.req.header('Upgrade')?.toLowerCase() === 'websocket';
+      // Browsers cannot set headers on WebSocket requests
+      const bearer =
+        authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ??
+        (upgrade ? c.req.query('access_token') : undefined);
+      let auth: AuthContext;
+      try {
+        auth = await authenticate(c.env, c.req.header('X-API-Key'), bearer);
+      } catch (error) {
+        if (error instanceof AuthError) {
+          return c.json(
+            errorBody(error.code, error.message, error.name),
+            error.status
+          );
+        }
+        throw error;
+      }
+
+      let { identity, scope } = requirements(
+        c.req.method,
+        c.req.path,
+        upgrade
+      );
+      if (c.req.method === 'POST' && c.req.path === '/api/sandbox') {
+        // The identity of a new sandbox is only known from the request body
+        const body = await c.req.json().catch(() => ({}));
+        if (typeof body?.identity === 'string') {
+          identity = body.identity;
+        }
+      }
+      if (identity && !canAccessIdentity(auth, identity)) {
+        return c.json(
+          errorBody(
+            'FORBIDDEN',
+            `Not allowed to access sandbox ${identity}`,
+            'AuthError'
+          ),
+          403
+        );
+      }
+      if (!hasScope(auth.scopes, scope)) {
+        return c.json(
+          errorBody('FORBIDDEN', `Missing scope ${scope}`, 'AuthError'),
+          403
+        );
+      }
+
+      c.set('auth', auth);
+      return next();
+    }
+  );
+}
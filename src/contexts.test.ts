@@ -0,0 +1,188 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  CodeContext,
+  CreateContextOptions,
+  ExecResult,
+} from '@cloudflare/sandbox';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { localExecutor } from '../test/executor';
+import {
+  createContext,
+  deleteContext,
+  findContext,
+  interruptContext,
+  rememberContext,
+} from './contexts';
+
+function execResult(command: string, stdout = ''): ExecResult {
+  return {
+    success: true,
+    exitCode: 0,
+    stdout,
+    stderr: '',
+    command,
+    duration: 0,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function codeContext(id: string, language = 'python'): CodeContext {
+  return {
+    id,
+    language,
+    cwd: '/workspace',
+    createdAt: new Date(),
+    lastUsed: new Date(),
+  };
+}
+
+/**
+ * Executor whose process list gains `started` once the context is created.
+ * Every command it is asked to run is kept in `commands`.
+ */
+function fakeExecutor(started: number[], language = 'python') {
+  const commands: string[] = [];
+  let pids = [100, 101];
+  const executor = {
+    commands,
+    async exec(command: string) {
+      commands.push(command);
+      if (command.includes('/proc/')) {
+        return execResult(command, pids.join('\n'));
+      }
+      return execResult(command);
+    },
+    async createCodeContext() {
+      pids = [...pids, ...started];
+      return codeContext('ctx-1', language);
+    },
+    async listCodeContexts() {
+      return [];
+    },
+    async deleteCodeContext() {},
+  };
+  return executor;
+}
+
+describe('createContext', () => {
+  it('records the executor that started with a Python context', async () => {
+    const executor = fakeExecutor([102]);
+    const context = await createContext(executor, 'sandbox-one', {
+      language: 'python',
+    });
+    expect(executor.commands).toContain(
+      'mkdir -p /tmp/tribble-contexts && ' +
+        "echo 102 > '/tmp/tribble-contexts/ctx-1.pid'"
+    );
+    const interrupted = await interruptContext(
+      executor,
+      'sandbox-one',
+      context
+    );
+    expect(interrupted).toEqual({ pid: 102, delivered: true });
+    expect(executor.commands).toContain('kill -INT 102');
+  });
+
+  it('leaves the PID unknown when several executors started', async () => {
+    const executor = fakeExecutor([102, 103]);
+    const context = await createContext(executor, 'sandbox-two', {});
+    expect(await interruptContext(executor, 'sandbox-two', context)).toBe(
+      null
+    );
+    expect(executor.commands.some((c) => c.startsWith('kill'))).toBe(false);
+  });
+
+  it('does not look for executors of other languages', async () => {
+    const executor = fakeExecutor([102], 'javascript');
+    const context = await createContext(executor, 'sandbox-three', {
+      language: 'javascript',
+    });
+    expect(executor.commands).toEqual([]);
+    await expect(
+      interruptContext(executor, 'sandbox-three', context)
+    ).rejects.toMatchObject({ status: 409, code: 'INTERRUPT_UNSUPPORTED' });
+  });
+});
+
+describe('findContext', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function listingExecutor(contexts: CodeContext[]) {
+    return {
+      ...fakeExecutor([]),
+      listCodeContexts: vi.fn(async () => contexts),
+    };
+  }
+
+  it('answers from the cache until the entry expires', async () => {
+    vi.useFakeTimers();
+    const context = codeContext('ctx-cached');
+    const executor = listingExecutor([context]);
+    rememberContext('sandbox-cache', context);
+    await findContext(executor, 'sandbox-cache', 'ctx-cached');
+    expect(executor.listCodeContexts).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(60_000);
+    await findContext(executor, 'sandbox-cache', 'ctx-cached');
+    expect(executor.listCodeContexts).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the oldest contexts once the cache is full', async () => {
+    const first = codeContext('ctx-0');
+    const executor = listingExecutor([first]);
+    rememberContext('sandbox-full', first);
+    for (let index = 1; index <= 1000; index++) {
+      rememberContext('sandbox-full', codeContext(`ctx-${index}`));
+    }
+    await findContext(executor, 'sandbox-full', 'ctx-1000');
+    expect(executor.listCodeContexts).not.toHaveBeenCalled();
+    await findContext(executor, 'sandbox-full', 'ctx-0');
+    expect(executor.listCodeContexts).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createContext in a shell', () => {
+  let child: ChildProcess | undefined;
+  let cleanup: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    child?.kill();
+    await cleanup?.();
+  });
+
+  it('finds the executor process from its command line', async () => {
+    const local = await localExecutor();
+    cleanup = local.cleanup;
+    const script = join(local.root, 'ipython_executor.py');
+    await writeFile(script, 'import time\ntime.sleep(30)\n');
+    const executor = {
+      ...local.executor,
+      async createCodeContext(options: CreateContextOptions) {
+        child = spawn('python3', [script], { stdio: 'ignore' });
+        // Give the process a moment to appear under /proc
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return codeContext('ctx-local', options.language);
+      },
+      async listCodeContexts() {
+        return [];
+      },
+      async deleteCodeContext() {},
+    };
+    const context = await createContext(executor, 'sandbox-local', {
+      language: 'python',
+    });
+    const exited = new Promise((resolve) => child?.on('exit', resolve));
+    const interrupted = await interruptContext(
+      executor,
+      'sandbox-local',
+      context
+    );
+    expect(interrupted).toEqual({ pid: child?.pid, delivered: true });
+    // Python without a handler for the interrupt exits with it
+    await exited;
+    await deleteContext(executor, 'sandbox-local', context.id);
+  });
+});
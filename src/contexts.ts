@@ -0,0 +1,220 @@
+import {
+  type CodeContext,
+  type CreateContextOptions,
+  type ExecutionSession,
+} from '@cloudflare/sandbox';
+import { ApiError } from './errors';
+import { shellQuote } from './shell';
+
+type ContextExecutor = Pick<
+  ExecutionSession,
+  | 'listCodeContexts'
+  | 'createCodeContext'
+  | 'deleteCodeContext'
+  | 'exec'
+>;
+
+const CACHE_TTL_MS = 60_000;
+const CACHE_MAX_ENTRIES = 1000;
+/** Executor PIDs live in the container so they go away with its contexts */
+const PID_DIR = '/tmp/tribble-contexts';
+
+/**
+ * Python contexts run in IPython executor processes started by the container.
+ * Only an argument naming the script counts, so shells whose command line
+ * merely mentions it are skipped.
+ */
+const LIST_PYTHON_EXECUTORS =
+  'for proc in /proc/[0-9]*; do ' +
+  'tr "\\0" "\\n" < "$proc/cmdline" 2>/dev/null | ' +
+  'grep -qxE "(.*/)?ipython_executor\\.py" && echo "${proc#/proc/}"; ' +
+  'done';
+
+interface CachedContext {
+  context: CodeContext;
+  pid?: number;
+  expiresAt: number;
+}
+
+/**
+ * Contexts seen by this isolate, keyed by sandbox identity and context id.
+ * Runs resolve their context here instead of listing every context first.
+ */
+const cache = new Map<string, CachedContext>();
+
+function cacheKey(identity: string, contextId: string) {
+  return `${identity}:${contextId}`;
+}
+
+function pidFile(contextId: string) {
+  return shellQuote(`${PID_DIR}/${contextId}.pid`);
+}
+
+/**
+ * Entries are re-inserted whenever they are refreshed, so the Map iterates
+ * from the soonest to expire. Drop expired entries and, while the cache is
+ * full, the oldest live ones.
+ */
+function pruneCache(now: number) {
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt > now && cache.size < CACHE_MAX_ENTRIES) {
+      break;
+    }
+    cache.delete(key);
+  }
+}
+
+export function rememberContext(
+  identity: string,
+  context: CodeContext,
+  pid?: number
+) {
+  const key = cacheKey(identity, context.id);
+  const now = Date.now();
+  const known = cache.get(key)?.pid;
+  cache.delete(key);
+  pruneCache(now);
+  cache.set(key, {
+    context,
+    pid: pid ?? known,
+    expiresAt: now + CACHE_TTL_MS,
+  });
+}
+
+export function forgetContext(identity: string, contextId: string) {
+  cache.delete(cacheKey(identity, contextId));
+}
+
+/**
+ * Resolve a context id, listing the sandbox's contexts only on a cache miss.
+ * Returns null when the context does not exist.
+ */
+export async function findContext(
+  executor: ContextExecutor,
+  identity: string,
+  contextId: string
+) {
+  const cached = cache.get(cacheKey(identity, contextId));
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.context;
+  }
+  forgetContext(identity, contextId);
+  const contexts = await executor.listCodeContexts();
+  for (const context of contexts) {
+    rememberContext(identity, context);
+  }
+  return contexts.find((context) => context.id === contextId) ?? null;
+}
+
+/** Look up the PID of the process executing a context's code, if known. */
+async function contextPid(
+  executor: ContextExecutor,
+  identity: string,
+  context: CodeContext
+) {
+  const cached = cache.get(cacheKey(identity, context.id))?.pid;
+  if (cached) {
+    return cached;
+  }
+  const recorded = await executor.exec(
+    `cat ${pidFile(context.id)} 2>/dev/null`
+  );
+  const pid = Number(recorded.stdout.trim()) || undefined;
+  if (pid) {
+    rememberContext(identity, context, pid);
+  }
+  return pid ?? null;
+}
+
+async function pythonExecutorPids(executor: ContextExecutor) {
+  const result = await executor.exec(LIST_PYTHON_EXECUTORS);
+  return result.stdout.split('\n').map(Number).filter(Boolean);
+}
+
+/**
+ * Create a context and, for Python, record the PID of the executor process
+ * that appeared with it. The PID is found from the container's process list
+ * so no code runs in the new context. When several executors start at once
+ * the PID stays unknown rather than risk interrupting another context.
+ */
+export async function createContext(
+  executor: ContextExecutor,
+  identity: string,
+  options: CreateContextOptions
+) {
+  const python = (options.language ?? 'python') === 'python';
+  const before = python ? await pythonExecutorPids(executor) : [];
+  const context = await executor.createCodeContext(options);
+  rememberContext(identity, context);
+  if (python) {
+    const after = await pythonExecutorPids(executor).catch(() => []);
+    const started = after.filter((pid) => !before.includes(pid));
+    if (started.length === 1) {
+      const [pid] = started;
+      await executor
+        .exec(`mkdir -p ${PID_DIR} && echo ${pid} > ${pidFile(context.id)}`)
+        .catch(() => {});
+      rememberContext(identity, context, pid);
+    }
+  }
+  return context;
+}
+
+export async function deleteContext(
+  executor: ContextExecutor,
+  identity: string,
+  contextId: string
+) {
+  await executor.deleteCodeContext(contextId);
+  forgetContext(identity, contextId);
+  await executor.exec(`rm -f ${pidFile(contextId)}`).catch(() => {});
+}
+
+/**
+ * Only Python contexts can be interrupted: a JavaScript or TypeScript
+ * executor is a Node process that exits on SIGINT instead of stopping the
+ * running cell.
+ */
+export function canInterrupt(context: CodeContext) {
+  return context.language === 'python';
+}
+
+/**
+ * Send SIGINT to the context's executor, which raises KeyboardInterrupt in
+ * a running Python cell. Returns null when the executor PID is unknown.
+ */
+export async function interruptContext(
+  executor: ContextExecutor,
+  identity: string,
+  context: CodeContext
+) {
+  if (!canInterrupt(context)) {
+    throw new ApiError(
+      409,
+      'INTERRUPT_UNSUPPORTED',
+      `${context.language} contexts cannot be interrupted, restart it instead`
+    );
+  }
+  const pid = await contextPid(executor, identity, context);
+  if (!pid) {
+    return null;
+  }
+  const result = await executor.exec(`kill -INT ${pid}`);
+  return { pid, delivered: result.success };
+}
+
+/**
+ * Replace a context with a fresh one using the same language and working
+ * directory. Contexts cannot be reset in place, so the new one has a new id.
+ */
+export async function restartContext(
+  executor: ContextExecutor,
+  identity: string,
+  context: CodeContext
+) {
+  await deleteContext(executor, identity, context.id);
+  return createContext(executor, identity, {
+    language: context.language as CreateContextOptions['language'],
+    cwd: context.cwd,
+  });
+}
@@ -0,0 +1,107 @@
+import { redactCredentials, type ExecutionSession } from '@cloudflare/sandbox';
+import { type Env } from './types';
+
+type CredentialExecutor = Pick<ExecutionSession, 'writeFile' | 'deleteFile'>;
+
+export interface GitCredential {
+  username: string;
+  token: string;
+}
+
+/**
+ * GIT_CREDENTIALS is a JSON secret keyed by host or `host/organization`:
+ * `{"github.com/acme": "ghp_...", "git.example.com": {"username": "bot",
+ * "token": "..."}}`. Bare tokens use the `x-access-token` username.
+ */
+function parseStore(env: Env) {
+  if (!env.GIT_CREDENTIALS) {
+    return {};
+  }
+  let raw: Record<string, string | Partial<GitCredential>>;
+  try {
+    raw = JSON.parse(env.GIT_CREDENTIALS);
+  } catch {
+    throw new Error('GIT_CREDENTIALS is not valid JSON');
+  }
+  const store: Record<string, GitCredential> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const credential =
+      typeof value === 'string' ? { token: value } : (value ?? {});
+    if (credential.token) {
+      store[key.toLowerCase().replace(/\/+$/, '')] = {
+        username: credential.username ?? 'x-access-token',
+        token: credential.token,
+      };
+    }
+  }
+  return store;
+}
+
+/**
+ * Find the credential for an https repository URL, preferring an entry for
+ * the repository's organization over one for the whole host.
+ */
+export function findCredential(env: Env, repoUrl: string) {
+  let url: URL;
+  try {
+    url = new URL(repoUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+  const store = parseStore(env);
+  const host = url.host.toLowerCase();
+  const organization = url.pathname.split('/').filter(Boolean)[0];
+  const credential =
+    (organization && store[`${host}/${organization.toLowerCase()}`]) ||
+    store[host];
+  return credential ? { ...credential, origin: url.origin } : null;
+}
+
+/**
+ * Strip credentials embedded in URLs and every configured token from text
+ * that is about to leave the worker.
+ */
+export function redact(text: string, env?: Env) {
+  let result = redactCredentials(text);
+  if (env) {
+    for (const { token } of Object.values(parseStore(env))) {
+      result = result.split(token).join('***');
+    }
+  }
+  return result;
+}
+
+/**
+ * Run git with a credential-store helper holding only the credential for
+ * `repoUrl`. The helper is passed with `-c` so it never lands in a git
+ * config file, and the store file is removed once `run` settles.
+ */
+export async function withGitCredentials<T>(
+  executor: CredentialExecutor,
+  env: Env,
+  repoUrl: string,
+  run: (config: string[]) => Promise<T>
+) {
+  const credential = findCredential(env, repoUrl);
+  if (!credential) {
+    return run([]);
+  }
+  const file = `/tmp/tribble-${crypto.randomUUID()}.credentials`;
+  const url = new URL(credential.origin);
+  url.username = credential.username;
+  url.password = credential.token;
+  await executor.writeFile(file, `${url.href.replace(/\/$/, '')}\n`);
+  try {
+    return await run([
+      '-c',
+      'credential.helper=',
+      '-c',
+      `credential.helper=store --file=${file}`,
+    ]);
+  } finally {
+    await executor.deleteFile(file).catch(() => {});
+  }
+}
@@ -0,0 +1,75 @@
+import { HTTPException } from 'hono/http-exception';
+import { describe, expect, it } from 'vitest';
+import { ApiError, inferCode, toApiError } from './errors';
+
+describe('inferCode', () => {
+  it.each([
+    ['Session abc not found', 'SESSION_NOT_FOUND'],
+    ['session xyz does not exist', 'SESSION_NOT_FOUND'],
+    ['File not found: /workspace/a.txt', 'NOT_FOUND'],
+    ['cat: /x: No such file or directory', 'NOT_FOUND'],
+    ['Port 8080 is already exposed', 'CONFLICT'],
+    ['Address in use', 'CONFLICT'],
+    ['Command timed out after 30s', 'TIMEOUT'],
+    ['The operation was aborted', 'TIMEOUT'],
+    ['git clone failed with exit code 128', 'GIT_CLONE_FAILED'],
+    ['Container is not ready yet', 'SANDBOX_UNAVAILABLE'],
+    ['There is no Container instance available', 'SANDBOX_UNAVAILABLE'],
+    ['Something else broke', 'INTERNAL_ERROR'],
+  ])('maps "%s" to %s', (message, code) => {
+    expect(inferCode(message)).toBe(code);
+  });
+});
+
+describe('toApiError', () => {
+  it('passes API errors through', () => {
+    const error = new ApiError(409, 'JOB_FINISHED', 'Job already completed');
+    expect(toApiError(error)).toBe(error);
+  });
+
+  it('keeps the status of HTTP exceptions', () => {
+    const error = toApiError(new HTTPException(401, { message: 'No key' }));
+    expect(error).toMatchObject({
+      status: 401,
+      code: 'HTTP_ERROR',
+      source: 'HTTPException',
+    });
+  });
+
+  it('prefers the code an SDK error carries', () => {
+    const error = Object.assign(new Error('missing'), {
+      code: 'PROCESS_NOT_FOUND',
+      context: { processId: 'web' },
+      stack: 'not copied',
+    });
+    expect(toApiError(error)).toMatchObject({
+      status: 404,
+      code: 'PROCESS_NOT_FOUND',
+      details: { context: { processId: 'web' } },
+      source: 'SandboxError',
+    });
+  });
+
+  it('maps SDK error class names', () => {
+    const error = new Error('bad credentials');
+    error.name = 'GitAuthenticationError';
+    expect(toApiError(error)).toMatchObject({
+      status: 409,
+      code: 'GIT_AUTH_FAILED',
+    });
+  });
+
+  it('falls back to the message when only it survived', () => {
+    const error = toApiError(new Error('Session s1 not found'));
+    expect(error).toMatchObject({ status: 404, code: 'SESSION_NOT_FOUND' });
+  });
+
+  it('reports unknown failures as internal errors', () => {
+    expect(toApiError('boom')).toMatchObject({
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      message: 'boom',
+      source: 'InternalError',
+    });
+  });
+});
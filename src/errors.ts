@@ -0,0 +1,227 @@
+import { z } from '@hono/zod-openapi';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { redact } from './credentials';
+
+export const ErrorEnvelopeSchema = z
+  .object({
+    ok: z.literal(false),
+    error: z.object({
+      code: z.string().openapi({ example: 'FILE_NOT_FOUND' }),
+      message: z.string(),
+      details: z.unknown().optional(),
+    }),
+    source: z.string().openapi({ example: 'SandboxError' }),
+  })
+  .openapi('ErrorEnvelope');
+
+export type ErrorEnvelope = z.infer<typeof ErrorEnvelopeSchema>;
+
+/**
+ * Error raised by route handlers and middleware that already knows which
+ * status and code to answer with.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: ContentfulStatusCode,
+    readonly code: string,
+    message: string,
+    readonly details?: unknown,
+    readonly source = 'ApiError'
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function errorBody(
+  code: string,
+  message: string,
+  source = 'ApiError',
+  details?: unknown
+): ErrorEnvelope {
+  return {
+    ok: false,
+    error:
+      details === undefined ? { code, message } : { code, message, details },
+    source,
+  };
+}
+
+export function errorResponse(description: string) {
+  return {
+    content: {
+      'application/json': {
+        schema: ErrorEnvelopeSchema,
+      },
+    },
+    description,
+  };
+}
+
+/**
+ * Error responses shared by every route. Spread first into `responses` so a
+ * route can still override an entry with a more specific description.
+ */
+export const errorResponses = {
+  400: errorResponse('The request was rejected by the sandbox'),
+  401: errorResponse('Missing or invalid credentials'),
+  403: errorResponse('Credentials do not grant access to this resource'),
+  404: errorResponse('The sandbox resource was not found'),
+  408: errorResponse('The sandbox operation timed out'),
+  409: errorResponse('The operation conflicts with the sandbox state'),
+  422: errorResponse('The request failed validation'),
+  500: errorResponse('Unexpected error'),
+  503: errorResponse('The sandbox is not ready'),
+} as const;
+
+const STATUS_BY_CODE: Record<string, ContentfulStatusCode> = {
+  FILE_NOT_FOUND: 404,
+  COMMAND_NOT_FOUND: 404,
+  PROCESS_NOT_FOUND: 404,
+  PORT_NOT_EXPOSED: 404,
+  GIT_REPOSITORY_NOT_FOUND: 404,
+  GIT_BRANCH_NOT_FOUND: 404,
+  CONTEXT_NOT_FOUND: 404,
+  SESSION_NOT_FOUND: 404,
+  NOT_FOUND: 404,
+  IS_DIRECTORY: 400,
+  NOT_DIRECTORY: 400,
+  INVALID_COMMAND: 400,
+  INVALID_PORT_NUMBER: 400,
+  INVALID_PORT: 400,
+  INVALID_GIT_URL: 400,
+  CUSTOM_DOMAIN_REQUIRED: 400,
+  NAME_TOO_LONG: 400,
+  VALIDATION_FAILED: 400,
+  PERMISSION_DENIED: 403,
+  COMMAND_PERMISSION_DENIED: 403,
+  PROCESS_PERMISSION_DENIED: 403,
+  READ_ONLY: 403,
+  TIMEOUT: 408,
+  FILE_EXISTS: 409,
+  PORT_ALREADY_EXPOSED: 409,
+  PORT_IN_USE: 409,
+  RESOURCE_BUSY: 409,
+  GIT_AUTH_FAILED: 409,
+  GIT_CLONE_FAILED: 409,
+  GIT_CHECKOUT_FAILED: 409,
+  GIT_OPERATION_FAILED: 409,
+  CONFLICT: 409,
+  INTERPRETER_NOT_READY: 503,
+  SERVICE_NOT_RESPONDING: 503,
+  GIT_NETWORK_ERROR: 503,
+  SANDBOX_UNAVAILABLE: 503,
+};
+
+/**
+ * SDK error classes keep their name when thrown locally; across the Durable
+ * Object RPC boundary only the message may survive, see inferCode.
+ */
+const CODE_BY_NAME: Record<string, string> = {
+  FileNotFoundError: 'FILE_NOT_FOUND',
+  FileExistsError: 'FILE_EXISTS',
+  PermissionDeniedError: 'PERMISSION_DENIED',
+  CommandNotFoundError: 'COMMAND_NOT_FOUND',
+  ProcessNotFoundError: 'PROCESS_NOT_FOUND',
+  PortAlreadyExposedError: 'PORT_ALREADY_EXPOSED',
+  PortNotExposedError: 'PORT_NOT_EXPOSED',
+  InvalidPortError: 'INVALID_PORT',
+  ServiceNotRespondingError: 'SERVICE_NOT_RESPONDING',
+  PortInUseError: 'PORT_IN_USE',
+  CustomDomainRequiredError: 'CUSTOM_DOMAIN_REQUIRED',
+  GitRepositoryNotFoundError: 'GIT_REPOSITORY_NOT_FOUND',
+  GitAuthenticationError: 'GIT_AUTH_FAILED',
+  GitBranchNotFoundError: 'GIT_BRANCH_NOT_FOUND',
+  GitNetworkError: 'GIT_NETWORK_ERROR',
+  GitCloneError: 'GIT_CLONE_FAILED',
+  GitCheckoutError: 'GIT_CHECKOUT_FAILED',
+  InvalidGitUrlError: 'INVALID_GIT_URL',
+  GitError: 'GIT_OPERATION_FAILED',
+  InterpreterNotReadyError: 'INTERPRETER_NOT_READY',
+  ContextNotFoundError: 'CONTEXT_NOT_FOUND',
+  ValidationFailedError: 'VALIDATION_FAILED',
+  TimeoutError: 'TIMEOUT',
+};
+
+const UNAVAILABLE_PATTERN =
+  /not ready|not running|not responding|container.*(start|provision)|no container instance/i;
+
+export function inferCode(message: string) {
+  if (/session/i.test(message) && /not found|does not exist/i.test(message)) {
+    return 'SESSION_NOT_FOUND';
+  }
+  if (/not found|does not exist|no such file/i.test(message)) {
+    return 'NOT_FOUND';
+  }
+  if (/already exists|already exposed|in use/i.test(message)) {
+    return 'CONFLICT';
+  }
+  if (/timed? ?out|timeout|aborted/i.test(message)) {
+    return 'TIMEOUT';
+  }
+  if (/clone/i.test(message) && /fail|exit/i.test(message)) {
+    return 'GIT_CLONE_FAILED';
+  }
+  if (UNAVAILABLE_PATTERN.test(message)) {
+    return 'SANDBOX_UNAVAILABLE';
+  }
+  return 'INTERNAL_ERROR';
+}
+
+function sdkDetails(error: Record<string, unknown>) {
+  const details: Record<string, unknown> = {};
+  for (const key of ['context', 'operation', 'suggestion']) {
+    if (error[key] !== undefined) {
+      details[key] = error[key];
+    }
+  }
+  return Object.keys(details).length > 0 ? details : undefined;
+}
+
+/**
+ * Normalise anything thrown by a handler into an ApiError, mapping sandbox
+ * SDK failures onto the matching HTTP status.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof HTTPException) {
+    return new ApiError(
+      error.status as ContentfulStatusCode,
+      'HTTP_ERROR',
+      error.message,
+      undefined,
+      'HTTPException'
+    );
+  }
+
+  const err = error instanceof Error ? error : new Error(String(error));
+  const fields = err as unknown as Record<string, unknown>;
+  const sdkCode = typeof fields.code === 'string' ? fields.code : undefined;
+  const code =
+    sdkCode && sdkCode in STATUS_BY_CODE
+      ? sdkCode
+      : (CODE_BY_NAME[err.name] ?? inferCode(err.message));
+  const status = STATUS_BY_CODE[code] ?? 500;
+  return new ApiError(
+    status,
+    code,
+    err.message,
+    sdkDetails(fields),
+    status === 500 ? 'InternalError' : 'SandboxError'
+  );
+}
+
+export function handleError(error: Error, c: Context) {
+  const apiError = toApiError(error);
+  // Git and command failures can echo repository URLs and tokens back
+  const message = redact(apiError.message, c.env);
+  if (apiError.status >= 500) {
+    console.error(redact(error.stack ?? message, c.env));
+  }
+  const { code, source, details, status } = apiError;
+  return c.json(errorBody(code, message, source, details), status);
+}
@@ -0,0 +1,121 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { localExecutor, type LocalExecutor } from '../test/executor';
+import {
+  createArchive,
+  extractArchive,
+  findPathTests,
+  uploadStream,
+} from './files';
+
+let executor: LocalExecutor;
+let root: string;
+let cleanup: () => Promise<void>;
+
+beforeEach(async () => {
+  ({ executor, root, cleanup } = await localExecutor());
+});
+
+afterEach(() => cleanup());
+
+function streamOf(...parts: Uint8Array[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach((part) => controller.enqueue(part));
+      controller.close();
+    },
+  });
+}
+
+describe('uploadStream', () => {
+  it('writes every chunk in order and returns the byte count', async () => {
+    const first = new Uint8Array(3 * 1024 * 1024).fill(1);
+    const second = new Uint8Array(2 * 1024 * 1024).fill(2);
+    const path = join(root, 'upload.bin');
+    const size = await uploadStream(executor, path, streamOf(first, second));
+    expect(size).toBe(first.length + second.length);
+    const written = await readFile(path);
+    expect(written.equals(Buffer.concat([first, second]))).toBe(true);
+  });
+
+  it('truncates the target for an empty stream', async () => {
+    const path = join(root, 'empty.txt');
+    await executor.writeFile(path, 'old content');
+    expect(await uploadStream(executor, path, streamOf())).toBe(0);
+    expect(await readFile(path, 'utf8')).toBe('');
+  });
+});
+
+describe('findPathTests', () => {
+  it('anchors relative patterns at the search root', () => {
+    expect(findPathTests(['src/*.ts', './docs/*'])).toBe(
+      "-path './src/*.ts' -o -path './docs/*'"
+    );
+  });
+
+  it('lets leading wildcards match at any depth', () => {
+    expect(findPathTests(['*.log'])).toBe("-path '*.log'");
+  });
+
+  it('quotes patterns for the shell', () => {
+    expect(findPathTests(["it's/*"])).toBe("-path './it'\\''s/*'");
+  });
+});
+
+describe('createArchive and extractArchive', () => {
+  async function write(path: string, content: string) {
+    await mkdir(join(root, path, '..'), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+
+  it('round-trips the files selected by the patterns', async () => {
+    await write('project/src/index.ts', 'export {}');
+    await write('project/src/deep/util.ts', 'export {}');
+    await write('project/notes.md', '# Notes');
+    await write('project/node_modules/pkg/index.js', '');
+    await write('project/debug.log', 'noise');
+
+    const archive = await createArchive(executor, join(root, 'project'), {
+      include: ['src/*', '*.md', '*.log'],
+      exclude: ['*.log'],
+    });
+    try {
+      const bytes = new Uint8Array(await readFile(archive));
+      const entries = await extractArchive(
+        executor,
+        join(root, 'copy'),
+        bytes
+      );
+      expect(entries.sort()).toEqual([
+        './notes.md',
+        './src/deep/util.ts',
+        './src/index.ts',
+      ]);
+    } finally {
+      await rm(archive, { force: true });
+    }
+    expect(await readFile(join(root, 'copy/src/deep/util.ts'), 'utf8')).toBe(
+      'export {}'
+    );
+  });
+
+  it('strips leading path components', async () => {
+    await write('project/app/main.py', 'print(1)');
+    const archive = await createArchive(executor, join(root, 'project'));
+    try {
+      const entries = await extractArchive(
+        executor,
+        join(root, 'flat'),
+        new Uint8Array(await readFile(archive)),
+        2
+      );
+      expect(entries).toEqual(['./app/main.py']);
+    } finally {
+      await rm(archive, { force: true });
+    }
+    expect(await readFile(join(root, 'flat/main.py'), 'utf8')).toBe(
+      'print(1)'
+    );
+  });
+});
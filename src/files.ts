@@ -0,0 +1,254 @@
+import {
+  parseSSEStream,
+  type ExecutionSession,
+  type FileMetadata,
+  type FileStreamEvent,
+} from '@cloudflare/sandbox';
+import { shellQuote } from './shell';
+
+type FileExecutor = Pick<
+  ExecutionSession,
+  'exec' | 'writeFile' | 'deleteFile' | 'readFileStream'
+>;
+
+export interface ArchiveOptions {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Build `find -path` tests for glob patterns relative to the search root.
+ * `*` also matches `/`, so `*.ts` selects TypeScript files at any depth.
+ */
+export function findPathTests(patterns: string[]) {
+  return patterns
+    .map((pattern) => {
+      const relative = pattern.replace(/^\.?\//, '');
+      const anchored = relative.startsWith('*') ? relative : `./${relative}`;
+      return `-path ${shellQuote(anchored)}`;
+    })
+    .join(' -o ');
+}
+
+/** Stream uploads are written in pieces of this size, before base64 */
+const UPLOAD_CHUNK_BYTES = 4 * 1024 * 1024;
+
+function tempPath(extension: string) {
+  return `/tmp/tribble-${crypto.randomUUID()}${extension}`;
+}
+
+async function run(executor: FileExecutor, command: string) {
+  const result = await executor.exec(command);
+  if (!result.success) {
+    throw new Error(result.stderr.trim() || `Command failed: ${command}`);
+  }
+  return result;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface FileStreamOptions {
+  /** Pick an inclusive byte range to return once the file size is known */
+  range?: (metadata: FileMetadata) => ByteRange | undefined;
+  /** Runs once the file has been fully read or the reader gives up */
+  onDone?: () => Promise<unknown>;
+}
+
+/**
+ * Read the metadata event of a `readFileStream` SSE stream and expose the
+ * remaining chunks as raw bytes. Binary files arrive base64 encoded and
+ * are decoded here.
+ */
+export async function openFileStream(
+  source: ReadableStream<Uint8Array>,
+  { range, onDone }: FileStreamOptions = {}
+) {
+  const events = parseSSEStream<FileStreamEvent>(source)[
+    Symbol.asyncIterator
+  ]();
+  const finish = async () => {
+    await onDone?.().catch(() => {});
+  };
+
+  const first = await events.next();
+  if (first.done || first.value.type !== 'metadata') {
+    await events.return?.();
+    await finish();
+    const error =
+      !first.done && first.value.type === 'error'
+        ? first.value.error
+        : 'File stream did not start with metadata';
+    throw new Error(error);
+  }
+  const metadata: FileMetadata = first.value;
+  const selected = range?.(metadata);
+
+  const encoder = new TextEncoder();
+  let position = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        while (true) {
+          const { done, value: event } = await events.next();
+          if (done || event.type === 'complete') {
+            controller.close();
+            await finish();
+            return;
+          }
+          if (event.type === 'error') {
+            throw new Error(event.error);
+          }
+          if (event.type !== 'chunk') {
+            continue;
+          }
+          let bytes: Uint8Array =
+            metadata.encoding === 'base64'
+              ? Buffer.from(event.data, 'base64')
+              : encoder.encode(event.data);
+          const offset = position;
+          position += bytes.length;
+          if (selected) {
+            if (position <= selected.start) {
+              continue;
+            }
+            bytes = bytes.subarray(
+              Math.max(0, selected.start - offset),
+              Math.max(0, selected.end + 1 - offset)
+            );
+          }
+          if (bytes.length > 0) {
+            controller.enqueue(bytes);
+          }
+          if (selected && position > selected.end) {
+            await events.return?.();
+            controller.close();
+            await finish();
+            return;
+          }
+          if (bytes.length > 0) {
+            return;
+          }
+        }
+      } catch (error) {
+        controller.error(error);
+        await finish();
+      }
+    },
+    async cancel() {
+      await events.return?.();
+      await finish();
+    },
+  });
+
+  return { metadata, body };
+}
+
+/**
+ * Write binary content into the sandbox. The bytes travel base64 encoded
+ * and the container decodes them as it writes the file.
+ */
+export async function uploadBytes(
+  executor: FileExecutor,
+  path: string,
+  bytes: Uint8Array
+) {
+  await executor.writeFile(path, Buffer.from(bytes).toString('base64'), {
+    encoding: 'base64',
+  });
+}
+
+/**
+ * Write a stream into the sandbox without holding all of it in memory. The
+ * stream is cut into chunks, each staged under /tmp and appended to `path`.
+ * Resolves to the number of bytes written.
+ */
+export async function uploadStream(
+  executor: FileExecutor,
+  path: string,
+  stream: ReadableStream<Uint8Array>
+) {
+  const chunk = tempPath('.part');
+  const destination = shellQuote(path);
+  let buffered: Uint8Array[] = [];
+  let size = 0;
+  let total = 0;
+  const flush = async () => {
+    await uploadBytes(executor, chunk, Buffer.concat(buffered, size));
+    await run(executor, `cat ${shellQuote(chunk)} >> ${destination}`);
+    total += size;
+    buffered = [];
+    size = 0;
+  };
+
+  await run(executor, `: > ${destination}`);
+  try {
+    for await (const part of stream) {
+      buffered.push(part);
+      size += part.length;
+      if (size >= UPLOAD_CHUNK_BYTES) {
+        await flush();
+      }
+    }
+    if (size > 0) {
+      await flush();
+    }
+  } finally {
+    await executor.deleteFile(chunk).catch(() => {});
+  }
+  return total;
+}
+
+/**
+ * Pack a directory into a temporary tar.gz inside the sandbox and return
+ * its path. The caller is responsible for deleting it.
+ */
+export async function createArchive(
+  executor: FileExecutor,
+  root: string,
+  { include = [], exclude = [] }: ArchiveOptions = {}
+) {
+  const archive = tempPath('.tar.gz');
+  const tests = ['-mindepth 1', '\\( -type f -o -type l \\)'];
+  if (include.length > 0) {
+    tests.push(`\\( ${findPathTests(include)} \\)`);
+  }
+  if (exclude.length > 0) {
+    tests.push(`! \\( ${findPathTests(exclude)} \\)`);
+  }
+  const find = `find . ${tests.join(' ')} -print0`;
+  const tar = `tar --null -czf ${shellQuote(archive)} -T -`;
+  await run(executor, `cd ${shellQuote(root)} && ${find} | ${tar}`);
+  return archive;
+}
+
+/**
+ * Unpack a tar.gz into `target`, creating it if needed, and return the
+ * extracted entry names. Streams are uploaded in chunks.
+ */
+export async function extractArchive(
+  executor: FileExecutor,
+  target: string,
+  source: Uint8Array | ReadableStream<Uint8Array>,
+  stripComponents = 0
+) {
+  const archive = tempPath('.tar.gz');
+  try {
+    if (source instanceof Uint8Array) {
+      await uploadBytes(executor, archive, source);
+    } else {
+      await uploadStream(executor, archive, source);
+    }
+    const directory = shellQuote(target);
+    const tar = `tar -xzvf ${shellQuote(archive)} -C ${directory} --strip-components=${stripComponents}`;
+    const result = await run(executor, `mkdir -p ${directory} && ${tar}`);
+    return result.stdout
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+  } finally {
+    await executor.deleteFile(archive).catch(() => {});
+  }
+}
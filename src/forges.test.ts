@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getForge, GiteaForge, GitHubForge, parseRepository } from './forges';
+import { type Env } from './types';
+
+const input = {
+  owner: 'octo',
+  repo: 'tribble',
+  head: 'feature',
+  base: 'main',
+  title: 'Add feature',
+  draft: true,
+};
+
+function respondWith(body: string, status = 201) {
+  const fetch = vi.fn(
+    async (_url: string, _init: RequestInit) => new Response(body, { status })
+  );
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createPullRequest', () => {
+  it('returns the number and URL of the created pull request', async () => {
+    respondWith(
+      JSON.stringify({ number: 7, html_url: 'https://github.com/octo/pr/7' })
+    );
+    const forge = new GitHubForge('https://api.github.com', 'token');
+    expect(await forge.createPullRequest(input)).toEqual({
+      number: 7,
+      url: 'https://github.com/octo/pr/7',
+    });
+  });
+
+  it('marks Gitea drafts in the title', async () => {
+    const fetch = respondWith(
+      JSON.stringify({ number: 3, html_url: 'https://git.example.com/pr/3' })
+    );
+    const forge = new GiteaForge('https://git.example.com/api/v1', 'token');
+    await forge.createPullRequest(input);
+    const [, init] = fetch.mock.calls[0];
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      title: 'WIP: Add feature',
+    });
+  });
+
+  it.each([
+    ['a body without the URL', JSON.stringify({ number: 7 })],
+    ['a number given as a string', '{"number":"7","html_url":"x"}'],
+    ['a body that is not JSON', '<html>Proxy error</html>'],
+  ])('rejects %s', async (_, body) => {
+    respondWith(body);
+    const forge = new GitHubForge('https://api.github.com', 'token');
+    await expect(forge.createPullRequest(input)).rejects.toMatchObject({
+      status: 502,
+      code: 'FORGE_REQUEST_FAILED',
+    });
+  });
+
+  it('reports the message of a failed request', async () => {
+    respondWith(JSON.stringify({ message: 'Validation Failed' }), 422);
+    const forge = new GitHubForge('https://api.github.com', 'token');
+    await expect(forge.createPullRequest(input)).rejects.toMatchObject({
+      status: 502,
+      message: 'github responded with 422: Validation Failed',
+      details: { status: 422 },
+    });
+  });
+});
+
+describe('parseRepository', () => {
+  it('splits a remote into host, owner and repository', () => {
+    expect(parseRepository('https://GitHub.com/octo/tribble.git')).toEqual({
+      origin: 'https://github.com',
+      host: 'github.com',
+      owner: 'octo',
+      repo: 'tribble',
+    });
+  });
+
+  it('rejects remotes without an owner and repository', () => {
+    expect(parseRepository('https://github.com/octo')).toBe(null);
+    expect(parseRepository('git@github.com:octo/tribble.git')).toBe(null);
+  });
+});
+
+describe('getForge', () => {
+  const env = {
+    GIT_CREDENTIALS: JSON.stringify({
+      'github.com': 'ghp_token',
+      'git.example.com': 'gitea_token',
+      'ghe.example.com': 'ghe_token',
+    }),
+    FORGES: JSON.stringify({
+      'git.example.com': { type: 'gitea' },
+      'ghe.example.com': { type: 'github' },
+    }),
+  } as Env;
+
+  async function requestedUrl(repoUrl: string) {
+    const fetch = respondWith(JSON.stringify({ number: 1, html_url: 'x' }));
+    const forge = getForge(env, repoUrl);
+    await forge.createPullRequest({ ...input, owner: 'o', repo: 'r' });
+    return { type: forge.type, url: fetch.mock.calls[0][0] };
+  }
+
+  it('derives the API from the host and forge type', async () => {
+    expect(await requestedUrl('https://github.com/o/r')).toEqual({
+      type: 'github',
+      url: 'https://api.github.com/repos/o/r/pulls',
+    });
+    expect(await requestedUrl('https://ghe.example.com/o/r')).toEqual({
+      type: 'github',
+      url: 'https://ghe.example.com/api/v3/repos/o/r/pulls',
+    });
+    expect(await requestedUrl('https://git.example.com/o/r')).toEqual({
+      type: 'gitea',
+      url: 'https://git.example.com/api/v1/repos/o/r/pulls',
+    });
+  });
+
+  it('needs a forge and a credential for the host', () => {
+    expect(() => getForge(env, 'https://gitlab.com/o/r')).toThrow(
+      'No forge is configured for gitlab.com'
+    );
+    expect(() => getForge({} as Env, 'https://github.com/o/r')).toThrow(
+      'No credential is configured for github.com'
+    );
+    expect(() => getForge(env, 'https://github.com/o')).toThrow(
+      expect.objectContaining({ code: 'UNSUPPORTED_REMOTE' })
+    );
+  });
+});
@@ -0,0 +1,240 @@
+import { findCredential } from './credentials';
+import { ApiError } from './errors';
+import { type Env } from './types';
+
+export type ForgeType = 'github' | 'gitea';
+
+export interface PullRequestInput {
+  owner: string;
+  repo: string;
+  /** Branch holding the changes */
+  head: string;
+  /** Branch the changes should be merged into */
+  base: string;
+  title: string;
+  body?: string;
+  draft?: boolean;
+}
+
+export interface PullRequest {
+  number: number;
+  url: string;
+}
+
+export interface ForgeAdapter {
+  readonly type: ForgeType;
+  createPullRequest(input: PullRequestInput): Promise<PullRequest>;
+}
+
+/** The fields GitHub and Gitea both return for a created pull request */
+interface ForgePullRequest {
+  number: number;
+  html_url: string;
+}
+
+interface ForgeConfig {
+  type: ForgeType;
+  /** API base URL, e.g. http://localhost:3000/api/v1 for a local forge */
+  apiUrl?: string;
+}
+
+async function forgeRequest(
+  forge: ForgeType,
+  url: string,
+  init: RequestInit
+) {
+  const response = await fetch(url, init);
+  const text = await response.text();
+  if (!response.ok) {
+    let message = text;
+    try {
+      message = JSON.parse(text).message ?? text;
+    } catch {
+      // Keep the raw body
+    }
+    throw new ApiError(
+      502,
+      'FORGE_REQUEST_FAILED',
+      `${forge} responded with ${response.status}: ${message}`,
+      { status: response.status },
+      'ForgeError'
+    );
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    // Callers check the shape, so a non-JSON body fails there
+    return undefined;
+  }
+}
+
+function isPullRequest(body: unknown): body is ForgePullRequest {
+  if (typeof body !== 'object' || body === null) {
+    return false;
+  }
+  const { number, html_url } = body as Record<string, unknown>;
+  return typeof number === 'number' && typeof html_url === 'string';
+}
+
+function toPullRequest(forge: ForgeType, body: unknown): PullRequest {
+  if (!isPullRequest(body)) {
+    throw new ApiError(
+      502,
+      'FORGE_REQUEST_FAILED',
+      `${forge} did not return a pull request number and URL`,
+      undefined,
+      'ForgeError'
+    );
+  }
+  return { number: body.number, url: body.html_url };
+}
+
+export class GitHubForge implements ForgeAdapter {
+  readonly type = 'github';
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly token: string
+  ) {}
+
+  async createPullRequest({ owner, repo, ...input }: PullRequestInput) {
+    const pull = await forgeRequest(
+      this.type,
+      `${this.apiUrl}/repos/${owner}/${repo}/pulls`,
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/vnd.github+json',
+          Authorization: `Bearer ${this.token}`,
+          'Content-Type': 'application/json',
+          'User-Agent': 'tribble-troubles',
+          'X-GitHub-Api-Version': '2022-11-28',
+        },
+        body: JSON.stringify(input),
+      }
+    );
+    return toPullRequest(this.type, pull);
+  }
+}
+
+export class GiteaForge implements ForgeAdapter {
+  readonly type = 'gitea';
+
+  constructor(
+    private readonly apiUrl: string,
+    private readonly token: string
+  ) {}
+
+  async createPullRequest({ owner, repo, draft, ...input }: PullRequestInput) {
+    // Gitea marks drafts by title prefix rather than a flag
+    const title = draft ? `WIP: ${input.title}` : input.title;
+    const pull = await forgeRequest(
+      this.type,
+      `${this.apiUrl}/repos/${owner}/${repo}/pulls`,
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          Authorization: `token ${this.token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...input, title }),
+      }
+    );
+    return toPullRequest(this.type, pull);
+  }
+}
+
+/**
+ * FORGES is a JSON object keyed by host, e.g.
+ * `{"git.example.com": {"type": "gitea"}, "github.com": {"type": "github",
+ * "apiUrl": "http://localhost:9000"}}`. github.com works without an entry.
+ */
+function forgeConfig(env: Env, host: string): ForgeConfig | undefined {
+  let forges: Record<string, ForgeConfig> = {};
+  if (env.FORGES) {
+    try {
+      forges = JSON.parse(env.FORGES);
+    } catch {
+      throw new Error('FORGES is not valid JSON');
+    }
+  }
+  return (
+    forges[host] ?? (host === 'github.com' ? { type: 'github' } : undefined)
+  );
+}
+
+/**
+ * Split an https remote URL into its host, owner and repository name.
+ */
+export function parseRepository(repoUrl: string) {
+  let url: URL;
+  try {
+    url = new URL(repoUrl);
+  } catch {
+    return null;
+  }
+  const [owner, repo] = url.pathname.replace(/^\/+/, '').split('/');
+  if (!owner || !repo) {
+    return null;
+  }
+  return {
+    origin: url.origin,
+    host: url.host.toLowerCase(),
+    owner,
+    repo: repo.replace(/\.git$/, ''),
+  };
+}
+
+/**
+ * Pick the forge adapter for a remote. The token is the one the credential
+ * store holds for the repository, so pushes and API calls share it.
+ */
+export function getForge(env: Env, repoUrl: string): ForgeAdapter {
+  const repository = parseRepository(repoUrl);
+  if (!repository) {
+    throw new ApiError(
+      422,
+      'UNSUPPORTED_REMOTE',
+      'Pull requests need an https remote of the form host/owner/repo'
+    );
+  }
+  const config = forgeConfig(env, repository.host);
+  if (!config) {
+    throw new ApiError(
+      422,
+      'FORGE_NOT_CONFIGURED',
+      `No forge is configured for ${repository.host}`
+    );
+  }
+  const credential = findCredential(env, repoUrl);
+  if (!credential) {
+    throw new ApiError(
+      422,
+      'FORGE_NOT_CONFIGURED',
+      `No credential is configured for ${repository.host}`
+    );
+  }
+  const apiUrl = config.apiUrl?.replace(/\/+$/, '');
+  switch (config.type) {
+    case 'github':
+      return new GitHubForge(
+        apiUrl ??
+          (repository.host === 'github.com'
+            ? 'https://api.github.com'
+            : `${repository.origin}/api/v3`),
+        credential.token
+      );
+    case 'gitea':
+      return new GiteaForge(
+        apiUrl ?? `${repository.origin}/api/v1`,
+        credential.token
+      );
+    default:
+      throw new ApiError(
+        422,
+        'FORGE_NOT_CONFIGURED',
+        `Unknown forge type ${(config as ForgeConfig).type}`
+      );
+  }
+}
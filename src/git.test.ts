@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from './errors';
+import { gitName, parseChangedFiles, parseNumstat } from './git';
+
+describe('parseChangedFiles', () => {
+  it('parses porcelain status lines', () => {
+    const porcelain = [
+      ' M src/index.ts',
+      'A  src/new.ts',
+      '?? notes.txt',
+      ' D old.ts',
+      '',
+    ].join('\n');
+    expect(parseChangedFiles(porcelain)).toEqual([
+      { path: 'src/index.ts', status: 'M' },
+      { path: 'src/new.ts', status: 'A' },
+      { path: 'notes.txt', status: '??' },
+      { path: 'old.ts', status: 'D' },
+    ]);
+  });
+
+  it('splits renames into the new and previous path', () => {
+    expect(parseChangedFiles('R  src/a.ts -> src/b.ts')).toEqual([
+      { path: 'src/b.ts', status: 'R', previousPath: 'src/a.ts' },
+    ]);
+  });
+
+  it('skips the branch header and blank output', () => {
+    expect(parseChangedFiles('## main...origin/main [ahead 1]\n')).toEqual(
+      []
+    );
+    expect(parseChangedFiles('')).toEqual([]);
+  });
+});
+
+describe('parseNumstat', () => {
+  it('parses additions and deletions per file', () => {
+    expect(parseNumstat('3\t1\tsrc/index.ts\n10\t0\tREADME.md\n')).toEqual([
+      { path: 'src/index.ts', additions: 3, deletions: 1, binary: false },
+      { path: 'README.md', additions: 10, deletions: 0, binary: false },
+    ]);
+  });
+
+  it('marks binary files', () => {
+    expect(parseNumstat('-\t-\tlogo.png')).toEqual([
+      { path: 'logo.png', additions: 0, deletions: 0, binary: true },
+    ]);
+  });
+
+  it('keeps tabs inside paths', () => {
+    expect(parseNumstat('1\t2\tweird\tname.txt')[0].path).toBe(
+      'weird\tname.txt'
+    );
+  });
+
+  it('returns nothing for empty output', () => {
+    expect(parseNumstat('')).toEqual([]);
+  });
+});
+
+describe('gitName', () => {
+  it('passes names through', () => {
+    expect(gitName('main', 'branch')).toBe('main');
+    expect(gitName('HEAD~1', 'ref')).toBe('HEAD~1');
+    expect(gitName('feature/a-b', 'branch')).toBe('feature/a-b');
+  });
+
+  it('rejects values that git would read as options', () => {
+    expect(() => gitName('--upload-pack=touch /tmp/x', 'remote')).toThrow(
+      ApiError
+    );
+    expect(() => gitName('-f', 'ref')).toThrow(
+      expect.objectContaining({
+        status: 422,
+        code: 'INVALID_GIT_ARGUMENT',
+        details: { ref: '-f' },
+      })
+    );
+  });
+});
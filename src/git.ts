@@ -0,0 +1,508 @@
+import { type ExecutionSession } from '@cloudflare/sandbox';
+import { redact, withGitCredentials } from './credentials';
+import { ApiError } from './errors';
+import { getForge, parseRepository } from './forges';
+import { shellQuote } from './shell';
+import { type Env } from './types';
+
+type GitExecutor = Pick<ExecutionSession, 'exec'>;
+
+type RemoteExecutor = Pick<
+  ExecutionSession,
+  'exec' | 'gitCheckout' | 'writeFile' | 'deleteFile'
+>;
+
+export interface ChangedFile {
+  path: string;
+  /** Two letter porcelain status with surrounding spaces trimmed */
+  status: string;
+  previousPath?: string;
+}
+
+export interface DiffStat {
+  path: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface CommitInfo {
+  sha: string;
+  author: { name: string; email: string };
+  date: string;
+  subject: string;
+}
+
+// Separators that cannot appear in commit metadata
+const FIELD = '\x1f';
+const RECORD = '\x1e';
+
+/**
+ * Refs, branches and remotes come from requests and are passed to git as
+ * positional arguments, where a leading `-` would turn them into options.
+ */
+export function gitName(value: string, field: string) {
+  if (value.startsWith('-')) {
+    throw new ApiError(
+      422,
+      'INVALID_GIT_ARGUMENT',
+      `${field} must not start with "-"`,
+      { [field]: value },
+      'GitError'
+    );
+  }
+  return value;
+}
+
+/**
+ * Run git in `dir`, or in the session's working directory when omitted, and
+ * return stdout. Failures surface as GIT_OPERATION_FAILED with git's output.
+ */
+export async function runGit(
+  executor: GitExecutor,
+  dir: string | undefined,
+  args: string[]
+) {
+  const prefix = dir ? `git -C ${shellQuote(dir)}` : 'git';
+  const command = `${prefix} ${args.map(shellQuote).join(' ')}`;
+  const result = await executor.exec(command);
+  if (!result.success) {
+    throw new ApiError(
+      409,
+      'GIT_OPERATION_FAILED',
+      result.stderr.trim() || result.stdout.trim() || 'Git command failed',
+      { args, exitCode: result.exitCode },
+      'GitError'
+    );
+  }
+  return result.stdout;
+}
+
+/**
+ * Parse `git status --porcelain` output into changed file entries.
+ */
+export function parseChangedFiles(porcelain: string): ChangedFile[] {
+  return porcelain
+    .split('\n')
+    .filter((line) => line.length > 3 && !line.startsWith('## '))
+    .map((line) => {
+      const status = line.slice(0, 2).trim();
+      const path = line.slice(3);
+      const arrow = path.indexOf(' -> ');
+      if (arrow >= 0) {
+        return {
+          path: path.slice(arrow + 4),
+          status,
+          previousPath: path.slice(0, arrow),
+        };
+      }
+      return { path, status };
+    });
+}
+
+/**
+ * Parse the `## branch...upstream [ahead 1, behind 2]` header printed by
+ * `git status --porcelain --branch`.
+ */
+export function parseBranchHeader(porcelain: string) {
+  const header = porcelain.split('\n').find((line) => line.startsWith('## '));
+  const match = header?.match(
+    /^## (?:No commits yet on )?(.+?)(?:\.\.\.(\S+))?(?: \[(.*)\])?$/
+  );
+  const tracking = match?.[3] ?? '';
+  const branch = match?.[1];
+  return {
+    branch: !branch || branch.startsWith('HEAD ') ? null : branch,
+    upstream: match?.[2] ?? null,
+    ahead: Number(tracking.match(/ahead (\d+)/)?.[1] ?? 0),
+    behind: Number(tracking.match(/behind (\d+)/)?.[1] ?? 0),
+  };
+}
+
+export async function gitStatus(executor: GitExecutor, dir?: string) {
+  const output = await runGit(executor, dir, [
+    'status',
+    '--porcelain',
+    '--branch',
+  ]);
+  const files = parseChangedFiles(output);
+  return { ...parseBranchHeader(output), clean: files.length === 0, files };
+}
+
+/**
+ * Parse `git diff --numstat`. Binary files report `-` for both counts.
+ */
+export function parseNumstat(output: string): DiffStat[] {
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [additions, deletions, ...path] = line.split('\t');
+      const binary = additions === '-';
+      return {
+        path: path.join('\t'),
+        additions: binary ? 0 : Number(additions),
+        deletions: binary ? 0 : Number(deletions),
+        binary,
+      };
+    });
+}
+
+export interface DiffOptions {
+  /** Diff the index instead of the working tree */
+  staged?: boolean;
+  /** Commit or range to diff against, e.g. `HEAD~1` or `main...HEAD` */
+  ref?: string;
+  paths?: string[];
+}
+
+export async function gitDiff(
+  executor: GitExecutor,
+  dir: string | undefined,
+  { staged, ref, paths = [] }: DiffOptions = {}
+) {
+  const args = ['diff'];
+  if (staged) {
+    args.push('--cached');
+  }
+  if (ref) {
+    args.push(gitName(ref, 'ref'));
+  }
+  args.push('--', ...paths);
+  const diff = await runGit(executor, dir, args);
+  const numstat = await runGit(executor, dir, [
+    'diff',
+    '--numstat',
+    ...args.slice(1),
+  ]);
+  const files = parseNumstat(numstat);
+  return {
+    diff,
+    files,
+    additions: files.reduce((sum, file) => sum + file.additions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+  };
+}
+
+export interface CommitOptions {
+  message: string;
+  author?: { name: string; email: string };
+  /** Paths to stage before committing; omitted stages every change */
+  paths?: string[];
+}
+
+export async function gitCommit(
+  executor: GitExecutor,
+  dir: string | undefined,
+  { message, author, paths }: CommitOptions
+) {
+  await runGit(executor, dir, ['add', '--all', '--', ...(paths ?? ['.'])]);
+  // Set the identity per command since sandboxes have no global git config
+  const identity = author
+    ? ['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`]
+    : [];
+  await runGit(executor, dir, [...identity, 'commit', '-m', message]);
+  const [commit] = await gitLog(executor, dir, { limit: 1 });
+  const numstat = await runGit(executor, dir, [
+    'show',
+    '--numstat',
+    '--format=',
+    commit.sha,
+  ]);
+  return { ...commit, files: parseNumstat(numstat) };
+}
+
+export interface LogOptions {
+  limit?: number;
+  ref?: string;
+  path?: string;
+}
+
+export async function gitLog(
+  executor: GitExecutor,
+  dir: string | undefined,
+  { limit = 20, ref, path }: LogOptions = {}
+): Promise<CommitInfo[]> {
+  const args = [
+    'log',
+    `--max-count=${limit}`,
+    `--format=%H${FIELD}%an${FIELD}%ae${FIELD}%aI${FIELD}%s${RECORD}`,
+  ];
+  if (ref) {
+    args.push(gitName(ref, 'ref'));
+  }
+  if (path) {
+    args.push('--', path);
+  }
+  const output = await runGit(executor, dir, args);
+  return output
+    .split(RECORD)
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [sha, name, email, date, subject] = record.split(FIELD);
+      return { sha, author: { name, email }, date, subject };
+    });
+}
+
+export async function listBranches(executor: GitExecutor, dir?: string) {
+  const format = [
+    '%(HEAD)',
+    '%(refname:short)',
+    '%(objectname)',
+    '%(upstream:short)',
+  ];
+  const output = await runGit(executor, dir, [
+    'branch',
+    `--format=${format.join(FIELD)}`,
+  ]);
+  return output
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      const [head, name, sha, upstream] = line.split(FIELD);
+      return { name, sha, current: head === '*', upstream: upstream || null };
+    });
+}
+
+export interface SwitchOptions {
+  branch: string;
+  create?: boolean;
+  startPoint?: string;
+}
+
+export async function switchBranch(
+  executor: GitExecutor,
+  dir: string | undefined,
+  { branch, create, startPoint }: SwitchOptions
+) {
+  gitName(branch, 'branch');
+  const args = create ? ['switch', '-c', branch] : ['switch', branch];
+  if (create && startPoint) {
+    args.push(gitName(startPoint, 'startPoint'));
+  }
+  await runGit(executor, dir, args);
+  const sha = await runGit(executor, dir, ['rev-parse', 'HEAD']);
+  return { branch, sha: sha.trim(), created: Boolean(create) };
+}
+
+export interface PushOptions {
+  /** `-c key=value` arguments placed before the git subcommand */
+  config?: string[];
+  remote?: string;
+  branch?: string;
+  setUpstream?: boolean;
+  force?: boolean;
+}
+
+export async function gitPush(
+  executor: GitExecutor,
+  dir: string | undefined,
+  options: PushOptions = {}
+) {
+  const { config = [], remote = 'origin', branch, setUpstream, force } =
+    options;
+  const target =
+    branch ??
+    (await runGit(executor, dir, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+  const args = [...config, 'push', '--porcelain'];
+  if (setUpstream) {
+    args.push('--set-upstream');
+  }
+  if (force) {
+    args.push('--force-with-lease');
+  }
+  args.push(gitName(remote, 'remote'), gitName(target, 'branch'));
+  const output = await runGit(executor, dir, args);
+  return { remote, branch: target, output: output.trim() };
+}
+
+export interface FetchOptions {
+  config?: string[];
+  remote?: string;
+  ref?: string;
+  prune?: boolean;
+}
+
+export async function gitFetch(
+  executor: GitExecutor,
+  dir: string | undefined,
+  { config = [], remote = 'origin', ref, prune }: FetchOptions = {}
+) {
+  const args = [...config, 'fetch', gitName(remote, 'remote')];
+  if (ref) {
+    args.push(gitName(ref, 'ref'));
+  }
+  if (prune) {
+    args.push('--prune');
+  }
+  await runGit(executor, dir, args);
+  return { remote, ref: ref ?? null };
+}
+
+export async function remoteUrl(
+  executor: GitExecutor,
+  dir: string | undefined,
+  remote: string
+) {
+  const args = ['remote', 'get-url', gitName(remote, 'remote')];
+  return (await runGit(executor, dir, args)).trim();
+}
+
+function repositoryName(repoUrl: string) {
+  const path = repoUrl.replace(/\/+$/, '').split(/[/:]/).pop() ?? '';
+  return path.replace(/\.git$/, '') || 'repo';
+}
+
+export interface CheckoutOptions {
+  branch?: string;
+  targetDir?: string;
+}
+
+/**
+ * Clone a repository, using the credential store for private repositories.
+ * Public repositories go through the SDK checkout; with credentials the
+ * clone runs through git directly so the helper can be passed along. The
+ * returned URL never carries credentials.
+ */
+export async function checkoutRepository(
+  executor: RemoteExecutor,
+  env: Env,
+  repoUrl: string,
+  { branch, targetDir }: CheckoutOptions
+) {
+  const directory = targetDir ?? `/workspace/${repositoryName(repoUrl)}`;
+  const result = await withGitCredentials(
+    executor,
+    env,
+    repoUrl,
+    async (config) => {
+      if (config.length === 0) {
+        return executor.gitCheckout(repoUrl, {
+          branch,
+          targetDir: directory,
+        });
+      }
+      const args = [...config, 'clone'];
+      if (branch) {
+        args.push('--branch', branch);
+      }
+      args.push('--', repoUrl, directory);
+      await runGit(executor, undefined, args);
+      const head = await runGit(executor, directory, [
+        'rev-parse',
+        '--abbrev-ref',
+        'HEAD',
+      ]);
+      return {
+        success: true,
+        repoUrl,
+        branch: head.trim(),
+        targetDir: directory,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  );
+  return { ...result, repoUrl: redact(result.repoUrl, env) };
+}
+
+export interface PullRequestOptions {
+  remote?: string;
+  /** Branch to push, created from the current one when it differs */
+  branch?: string;
+  /** Defaults to the branch checked out before the pull request branch */
+  base?: string;
+  title: string;
+  body?: string;
+  draft?: boolean;
+  commitMessage?: string;
+  author?: { name: string; email: string };
+}
+
+/** Commits need an identity and sandboxes have no global git config */
+const DEFAULT_AUTHOR = {
+  name: 'Tribble',
+  email: 'tribble@users.noreply.local',
+};
+
+/**
+ * Undo a pull request branch that could not be completed: drop its commit,
+ * keeping the changes staged, and return to the branch it was created from.
+ */
+async function abandonBranch(
+  executor: GitExecutor,
+  dir: string | undefined,
+  branch: string,
+  head: string
+) {
+  await runGit(executor, dir, ['reset', '--soft', head]);
+  // `-` also returns to a detached HEAD
+  await runGit(executor, dir, ['checkout', '-']);
+  await runGit(executor, dir, ['branch', '-D', branch]);
+}
+
+/**
+ * Commit the working tree onto a pull request branch, push it and open a
+ * pull request on the remote's forge. If a step fails after the branch was
+ * created, the working tree is put back on the original branch.
+ */
+export async function openPullRequest(
+  executor: RemoteExecutor,
+  env: Env,
+  dir: string | undefined,
+  options: PullRequestOptions
+) {
+  const {
+    remote = 'origin',
+    title,
+    body,
+    draft,
+    author = DEFAULT_AUTHOR,
+  } = options;
+  const url = await remoteUrl(executor, dir, remote);
+  const forge = getForge(env, url);
+  const status = await gitStatus(executor, dir);
+  const branch = options.branch ?? `tribble/${Date.now()}`;
+  const base = options.base ?? status.branch;
+  if (!base || base === branch) {
+    throw new ApiError(
+      422,
+      'VALIDATION_FAILED',
+      'A base branch different from the pull request branch is required'
+    );
+  }
+
+  const head = (await runGit(executor, dir, ['rev-parse', 'HEAD'])).trim();
+  const created = branch !== status.branch;
+  if (created) {
+    await switchBranch(executor, dir, { branch, create: true });
+  }
+  let commit: string | null = null;
+  try {
+    if (!status.clean) {
+      const message = options.commitMessage ?? title;
+      ({ sha: commit } = await gitCommit(executor, dir, { message, author }));
+    }
+    await withGitCredentials(executor, env, url, (config) =>
+      gitPush(executor, dir, { config, remote, branch, setUpstream: true })
+    );
+
+    // getForge already rejected remotes that do not parse
+    const { owner, repo } = parseRepository(url)!;
+    const pull = await forge.createPullRequest({
+      owner,
+      repo,
+      head: branch,
+      base,
+      title,
+      body,
+      draft,
+    });
+    return { ...pull, forge: forge.type, branch, base, commit };
+  } catch (error) {
+    if (created) {
+      await abandonBranch(executor, dir, branch, head).catch(() => {});
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,46 @@
+import { DurableObject } from 'cloudflare:workers';
+import { type RecordedCell } from './notebook';
+import { type Env } from './types';
+
+/** Storage deletes accept at most this many keys per call */
+const DELETE_BATCH_SIZE = 128;
+
+/**
+ * Durable Object recording the code run against each interpreter context of
+ * a single sandbox, so the history can be exported as a notebook. One
+ * instance exists per sandbox identity.
+ */
+export class InterpreterHistory extends DurableObject<Env> {
+  async record(contextId: string, cell: RecordedCell) {
+    const counter = `count:${contextId}`;
+    const index = ((await this.ctx.storage.get<number>(counter)) ?? 0) + 1;
+    // Zero padded so listing returns cells in execution order
+    const key = `cell:${contextId}:${String(index).padStart(8, '0')}`;
+    await this.ctx.storage.put({ [counter]: index, [key]: cell });
+  }
+
+  async list(contextId: string) {
+    const cells = await this.ctx.storage.list<RecordedCell>({
+      prefix: `cell:${contextId}:`,
+    });
+    return [...cells.values()];
+  }
+
+  async clear(contextId: string) {
+    const cells = await this.ctx.storage.list({
+      prefix: `cell:${contextId}:`,
+    });
+    const keys = [...cells.keys(), `count:${contextId}`];
+    for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+      await this.ctx.storage.delete(
+        keys.slice(start, start + DELETE_BATCH_SIZE)
+      );
+    }
+  }
+}
+
+export function getInterpreterHistory(env: Env, identity: string) {
+  return env.InterpreterHistory.get(
+    env.InterpreterHistory.idFromName(identity)
+  );
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from './index';
+import { type Env } from './types';
+
+const proxyToSandbox = vi.fn(
+  async (_request: Request, _env: Env): Promise<Response | null> => null
+);
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  proxyToSandbox: (request: Request, env: Env) =>
+    proxyToSandbox(request, env),
+}));
+
+const registry = { touch: vi.fn(async () => null) };
+const env = {
+  Registry: { idFromName: () => 'global', get: () => registry },
+} as unknown as Env;
+const ctx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: () => {},
+  props: {},
+} as unknown as ExecutionContext;
+
+function fetch(url: string) {
+  return worker.fetch(
+    new Request(url) as Request<unknown, IncomingRequestCfProperties>,
+    env,
+    ctx
+  );
+}
+
+/** Preview URL of a port of sandbox-1 */
+function preview(port: number, path = '/') {
+  return `https://${port}-sandbox-1-abcdefghijklmnop.example.com${path}`;
+}
+
+describe('preview routing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('refuses previews of the container control port', async () => {
+    const response = await fetch(preview(3000));
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      ok: false,
+      error: { code: 'INVALID_TOKEN' },
+    });
+    expect(proxyToSandbox).not.toHaveBeenCalled();
+  });
+
+  it('serves other preview hostnames from the sandbox', async () => {
+    proxyToSandbox.mockResolvedValueOnce(new Response('from the app'));
+    const url = preview(8080, '/index.html');
+    const response = await fetch(url);
+    expect(await response.text()).toBe('from the app');
+    expect(proxyToSandbox.mock.calls[0][0].url).toBe(url);
+  });
+
+  it('falls through to the API for other hostnames', async () => {
+    const response = await fetch('https://api.example.com/api/doc');
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ openapi: '3.0.0' });
+  });
+});
+
+describe('preview activity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    [200, true],
+    [101, true],
+    [404, false],
+    [502, false],
+  ])('records activity for a %i response: %s', async (status, touched) => {
+    // Response cannot be built with 101, so fake the fields that are read
+    const response = { ok: status >= 200 && status < 300, status };
+    proxyToSandbox.mockResolvedValueOnce(response as Response);
+    await fetch(preview(8080));
+    if (touched) {
+      expect(registry.touch).toHaveBeenCalledWith('sandbox-1');
+    } else {
+      expect(registry.touch).not.toHaveBeenCalled();
+    }
+  });
+});
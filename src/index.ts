@@ -1,19 +1,32 @@
+import { proxyToSandbox } from '@cloudflare/sandbox';
 import { OpenAPIHono } from '@hono/zod-openapi'
 import { cors } from 'hono/cors';
+import { requireAuth, type AuthVariables } from './auth';
+import { errorBody, handleError } from './errors';
+import { reapSandboxes } from './reaper';
+import { getRegistry, trackActivity } from './registry';
 import { type Env } from './types';
+import claudeRoutes from './routes/claude';
 import commandRoutes from './routes/command';
 import fileRoutes from './routes/file';
 import gitRoutes from './routes/git';
 import interpreterRoutes from './routes/interpreter';
+import packageRoutes from './routes/packages';
 import portRoutes from './routes/port';
 import processRoutes from './routes/process';
 import sandboxRoutes from './routes/sandbox';
 import sessionRoutes from './routes/session';
+import snapshotRoutes from './routes/snapshot';
+import templateRoutes from './routes/template';
+import terminalRoutes from './routes/terminal';
 
-const app = new OpenAPIHono<{ Bindings: Env }>();
+const app = new OpenAPIHono<{ Bindings: Env; Variables: AuthVariables }>();
+app.onError(handleError);
 
 // CORS should be called before any route
 app.use('/api/*', cors());
+app.use('/api/*', requireAuth());
+app.use('/api/sandbox/*', trackActivity());
 
 // Routes
 app.route('/api', sandboxRoutes);
@@ -24,6 +37,23 @@ app.route('/api', fileRoutes);
 app.route('/api', gitRoutes);
 app.route('/api', portRoutes);
 app.route('/api', interpreterRoutes);
+app.route('/api', packageRoutes);
+app.route('/api', claudeRoutes);
+app.route('/api', snapshotRoutes);
+app.route('/api', templateRoutes);
+app.route('/api', terminalRoutes);
+
+app.openAPIRegistry.registerComponent('securitySchemes', 'ApiKey', {
+  type: 'apiKey',
+  in: 'header',
+  name: 'X-API-Key',
+});
+app.openAPIRegistry.registerComponent('securitySchemes', 'BearerToken', {
+  type: 'http',
+  scheme: 'bearer',
+  description:
+    'API key or HMAC-signed token scoped to sandbox identities and route groups',
+});
 
 // The OpenAPI documentation 
 app.doc('/api/doc', {
@@ -32,7 +62,53 @@ app.doc('/api/doc', {
     version: '1.0.0',
     title: 'tribble-troubles',
   },
+  security: [{ ApiKey: [] }, { BearerToken: [] }],
 })
 
-export default app;
-export { Sandbox } from '@cloudflare/sandbox';
\ No newline at end of file
+/** Port of the container control API, which runs commands unauthenticated */
+const CONTROL_PORT = 3000;
+
+/** Preview hostnames look like `8080-<identity>-<token>.<host>` */
+const PREVIEW_HOST = /^\d{4,5}-([^.-][^.]*?[^.-]|[^.-])-[a-z0-9_-]{16}\./;
+
+/**
+ * The SDK proxies preview hostnames for the control port without checking
+ * their token, which would expose command execution to anyone.
+ */
+function isControlPortPreview(request: Request) {
+  const port = new URL(request.url).hostname.match(/^(\d{4,5})-/)?.[1];
+  return port !== undefined && Number(port) === CONTROL_PORT;
+}
+
+export default {
+  async fetch(request, env, ctx) {
+    if (isControlPortPreview(request)) {
+      return Response.json(
+        errorBody('INVALID_TOKEN', 'Port is not exposed', 'PreviewError'),
+        { status: 404 }
+      );
+    }
+    // Preview URLs from exposePort are served on their own hostnames, so
+    // proxy those into the sandbox before falling through to the API
+    const proxyResponse = await proxyToSandbox(request, env);
+    if (proxyResponse) {
+      // Traffic to a preview URL keeps the sandbox from counting as idle,
+      // but only once the sandbox accepted it: a rejected token must not
+      const identity = new URL(request.url).hostname.match(PREVIEW_HOST)?.[1];
+      const accepted = proxyResponse.ok || proxyResponse.status === 101;
+      if (identity && accepted) {
+        ctx.waitUntil(getRegistry(env).touch(identity));
+      }
+      return proxyResponse;
+    }
+    return app.fetch(request, env, ctx);
+  },
+  async scheduled(controller, env, ctx) {
+    ctx.waitUntil(reapSandboxes(env, controller.scheduledTime));
+  },
+} satisfies ExportedHandler<Env>;
+export { Sandbox } from '@cloudflare/sandbox';
+export { InterpreterHistory } from './history';
+export { ClaudeJobStore } from './jobs';
+export { SandboxRegistry } from './registry';
+export { TemplateStore } from './templates';
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  interpreterEvents,
+  normalizeResult,
+  type InterpreterEvent,
+} from './interpreter';
+
+describe('normalizeResult', () => {
+  it('reads the container payload and its MIME bundle', () => {
+    expect(
+      normalizeResult({
+        text: '<Figure>',
+        data: { 'image/png': 'iVBOR', 'application/json': { a: 1 } },
+      })
+    ).toEqual({
+      formats: ['text', 'png', 'json'],
+      text: '<Figure>',
+      png: 'iVBOR',
+      json: { a: 1 },
+    });
+  });
+
+  it('unwraps results serialized by the SDK', () => {
+    expect(normalizeResult({ raw: { html: '<b>hi</b>' } })).toEqual({
+      formats: ['html'],
+      html: '<b>hi</b>',
+    });
+  });
+
+  it('prefers top-level fields over the MIME bundle', () => {
+    const result = normalizeResult({
+      text: 'top',
+      data: { 'text/plain': 'bundle' },
+    });
+    expect(result.text).toBe('top');
+  });
+
+  it('drops empty and mistyped content', () => {
+    expect(
+      normalizeResult({ text: '', html: 42, svg: null, data: 'not a bundle' })
+    ).toEqual({ formats: [] });
+  });
+
+  it('keeps charts with a type', () => {
+    const chart = { type: 'bar', data: [1, 2] };
+    expect(normalizeResult({ chart })).toEqual({ formats: ['chart'], chart });
+    expect(normalizeResult({ chart: 'bar' })).toEqual({ formats: [] });
+  });
+
+  it('tolerates values that are not objects', () => {
+    expect(normalizeResult(null)).toEqual({ formats: [] });
+    expect(normalizeResult('text')).toEqual({ formats: [] });
+  });
+});
+
+function sse(...events: object[]) {
+  return events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+describe('interpreterEvents', () => {
+  it('translates container events until the execution completes', async () => {
+    const body = sse(
+      { type: 'stdout', text: 'hi\n', timestamp: 1 },
+      { type: 'error', ename: 'ValueError', evalue: 'bad', timestamp: 2 },
+      { type: 'execution_complete', execution_count: 4, timestamp: 3 },
+      { type: 'stdout', text: 'ignored', timestamp: 4 }
+    );
+    const events: InterpreterEvent[] = [];
+    for await (const event of interpreterEvents(new Response(body).body!)) {
+      events.push(event);
+    }
+    expect(events).toEqual([
+      { type: 'stdout', text: 'hi\n', timestamp: 1 },
+      {
+        type: 'error',
+        name: 'ValueError',
+        message: 'bad',
+        traceback: [],
+        timestamp: 2,
+      },
+      { type: 'complete', executionCount: 4, timestamp: 3 },
+    ]);
+  });
+
+  it('stops waiting for a silent cell once aborted', async () => {
+    let cancelled = false;
+    const encoder = new TextEncoder();
+    const source = new ReadableStream({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(sse({ type: 'stdout', text: 'working' }))
+        );
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    const controller = new AbortController();
+    const events: InterpreterEvent[] = [];
+    const consume = (async () => {
+      for await (const event of interpreterEvents(source, controller.signal)) {
+        events.push(event);
+        controller.abort();
+      }
+    })();
+    await expect(consume).rejects.toThrow();
+    expect(events).toHaveLength(1);
+    expect(cancelled).toBe(true);
+  });
+});
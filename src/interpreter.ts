@@ -0,0 +1,228 @@
+import {
+  parseSSEStream,
+  type ChartData,
+  type ExecutionError,
+  type ExecutionResult,
+} from '@cloudflare/sandbox';
+
+/** Languages interpreter contexts can run */
+export const LANGUAGES = ['python', 'javascript', 'typescript'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export type ResultFormat =
+  | 'text'
+  | 'html'
+  | 'png'
+  | 'jpeg'
+  | 'svg'
+  | 'latex'
+  | 'markdown'
+  | 'javascript'
+  | 'json'
+  | 'chart';
+
+/**
+ * A rich result with every representation the kernel produced, so clients
+ * can pick the best one they can render.
+ */
+export interface RichResult {
+  formats: ResultFormat[];
+  text?: string;
+  html?: string;
+  /** Base64 encoded */
+  png?: string;
+  /** Base64 encoded */
+  jpeg?: string;
+  svg?: string;
+  latex?: string;
+  markdown?: string;
+  javascript?: string;
+  json?: unknown;
+  chart?: ChartData;
+}
+
+export type InterpreterEvent =
+  | { type: 'stdout' | 'stderr'; text: string; timestamp: number }
+  | { type: 'result'; result: RichResult; timestamp: number }
+  | ({ type: 'error'; timestamp: number } & ExecutionError)
+  | { type: 'complete'; executionCount?: number; timestamp: number };
+
+export type MimeFormat = Exclude<ResultFormat, 'chart'>;
+
+/** The MIME type each result format is stored under in a MIME bundle */
+export const MIME_TYPES: Record<MimeFormat, string> = {
+  text: 'text/plain',
+  html: 'text/html',
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  svg: 'image/svg+xml',
+  latex: 'text/latex',
+  markdown: 'text/markdown',
+  javascript: 'application/javascript',
+  json: 'application/json',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isChart(value: unknown): value is ChartData {
+  return isRecord(value) && typeof value.type === 'string';
+}
+
+/**
+ * Results arrive either as the container's raw payload, with a MIME bundle
+ * in `data`, or as the SDK's result wrapper, which only keeps that payload
+ * in `raw` once it has been serialized over RPC.
+ */
+export function normalizeResult(value: unknown): RichResult {
+  const wrapped = isRecord(value) ? value : {};
+  const raw = isRecord(wrapped.raw) ? wrapped.raw : wrapped;
+  const bundle = isRecord(raw.data) ? raw.data : {};
+  const result: RichResult = { formats: [] };
+  for (const [format, mimeType] of Object.entries(MIME_TYPES) as [
+    MimeFormat,
+    string,
+  ][]) {
+    const content = raw[format] ?? bundle[mimeType];
+    if (format === 'json') {
+      if (content !== undefined && content !== null) {
+        result.json = content;
+        result.formats.push(format);
+      }
+    } else if (typeof content === 'string' && content !== '') {
+      result[format] = content;
+      result.formats.push(format);
+    }
+  }
+  if (isChart(raw.chart)) {
+    result.chart = raw.chart;
+    result.formats.push('chart');
+  }
+  return result;
+}
+
+export function normalizeExecution(execution: ExecutionResult) {
+  return {
+    ...execution,
+    results: (execution.results ?? []).map(normalizeResult),
+  };
+}
+
+/**
+ * Fold a streamed event into an execution result, the same shape the
+ * blocking run returns.
+ */
+export function applyEvent(
+  execution: ExecutionResult,
+  event: InterpreterEvent
+) {
+  switch (event.type) {
+    case 'stdout':
+    case 'stderr':
+      execution.logs[event.type].push(event.text);
+      break;
+    case 'result':
+      execution.results.push(event.result);
+      break;
+    case 'error':
+      execution.error = {
+        name: event.name,
+        message: event.message,
+        traceback: event.traceback,
+      };
+      break;
+    case 'complete':
+      execution.executionCount = event.executionCount;
+      break;
+  }
+}
+
+interface ContainerEvent {
+  type: string;
+  text?: string;
+  timestamp?: number;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+  execution_count?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * parseSSEStream only checks its signal between reads, so a cell that stops
+ * printing would never see the abort. Reading through this wrapper fails
+ * the pending read as soon as the signal fires and cancels the source.
+ */
+function cancelOnAbort(source: ReadableStream, signal: AbortSignal) {
+  const reader = source.getReader();
+  return new ReadableStream({
+    start(controller) {
+      const abort = () => {
+        controller.error(signal.reason);
+        reader.cancel(signal.reason).catch(() => {});
+      };
+      if (signal.aborted) {
+        abort();
+      } else {
+        signal.addEventListener('abort', abort, { once: true });
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (signal.aborted) {
+        return;
+      }
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Translate the container's execution stream into interpreter events as
+ * they happen. Aborting `signal` ends the events and cancels the stream.
+ */
+export async function* interpreterEvents(
+  stream: ReadableStream,
+  signal?: AbortSignal
+): AsyncGenerator<InterpreterEvent> {
+  const source = signal ? cancelOnAbort(stream, signal) : stream;
+  for await (const event of parseSSEStream<ContainerEvent>(source, signal)) {
+    const timestamp = event.timestamp ?? Date.now();
+    switch (event.type) {
+      case 'stdout':
+      case 'stderr':
+        if (event.text) {
+          yield { type: event.type, text: event.text, timestamp };
+        }
+        break;
+      case 'result':
+        yield { type: 'result', result: normalizeResult(event), timestamp };
+        break;
+      case 'error':
+        yield {
+          type: 'error',
+          name: event.ename ?? 'Error',
+          message: event.evalue ?? 'Unknown error',
+          traceback: event.traceback ?? [],
+          timestamp,
+        };
+        break;
+      case 'execution_complete':
+        yield {
+          type: 'complete',
+          executionCount: event.execution_count,
+          timestamp,
+        };
+        return;
+    }
+  }
+}
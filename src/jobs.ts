@@ -0,0 +1,89 @@
+import { DurableObject } from 'cloudflare:workers';
+import { type Env } from './types';
+
+export type ClaudeJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ClaudeJobChangedFile {
+  path: string;
+  status: string;
+  previousPath?: string;
+}
+
+export interface ClaudeJobResult {
+  exitCode: number | null;
+  result?: string;
+  diff: string;
+  changedFiles: ClaudeJobChangedFile[];
+}
+
+/**
+ * Process logs of a finished job. Logs are lost when the container
+ * restarts, so they are copied into the store once a job ends.
+ */
+export interface ClaudeJobOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export interface ClaudeJob {
+  id: string;
+  identity: string;
+  processId: string;
+  sessionId?: string;
+  task: string;
+  repoUrl: string;
+  branch: string;
+  targetDir: string;
+  status: ClaudeJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  result?: ClaudeJobResult;
+}
+
+/**
+ * Durable Object that persists Claude Code job state for a single sandbox.
+ * One instance exists per sandbox identity, so jobs survive worker restarts
+ * and container sleeps.
+ */
+export class ClaudeJobStore extends DurableObject<Env> {
+  async put(job: ClaudeJob) {
+    await this.ctx.storage.put(`job:${job.id}`, job);
+    return job;
+  }
+
+  async get(id: string) {
+    return (await this.ctx.storage.get<ClaudeJob>(`job:${id}`)) ?? null;
+  }
+
+  async update(id: string, patch: Partial<Omit<ClaudeJob, 'id'>>) {
+    const job = await this.get(id);
+    if (!job) {
+      return null;
+    }
+    return this.put({
+      ...job,
+      ...patch,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  async putOutput(id: string, output: ClaudeJobOutput) {
+    await this.ctx.storage.put(`output:${id}`, output);
+  }
+
+  async getOutput(id: string) {
+    return (
+      (await this.ctx.storage.get<ClaudeJobOutput>(`output:${id}`)) ?? null
+    );
+  }
+
+  async list() {
+    const jobs = await this.ctx.storage.list<ClaudeJob>({ prefix: 'job:' });
+    return [...jobs.values()];
+  }
+}
+
+export function getJobStore(env: Env, identity: string) {
+  return env.ClaudeJobs.get(env.ClaudeJobs.idFromName(identity));
+}
@@ -0,0 +1,242 @@
+import { type CodeContext, type ExecutionResult } from '@cloudflare/sandbox';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildNotebook,
+  recordCell,
+  runNotebook,
+  type Notebook,
+  type RecordedCell,
+} from './notebook';
+
+function execution(overrides: Partial<ExecutionResult> = {}): ExecutionResult {
+  return {
+    code: '',
+    logs: { stdout: [], stderr: [] },
+    results: [],
+    ...overrides,
+  };
+}
+
+function cell(code: string, timeout?: number): RecordedCell {
+  return recordCell(code, 'python', execution({ code }), timeout);
+}
+
+describe('recordCell', () => {
+  it('records streams, rich results and the execution count', () => {
+    const recorded = recordCell(
+      'print("hi")\n1 + 1',
+      'python',
+      execution({
+        logs: { stdout: ['hi\n', 'there'], stderr: [] },
+        results: [{ text: '2', html: '<b>2</b>' }],
+        executionCount: 3,
+      })
+    );
+    expect(recorded).toMatchObject({
+      code: 'print("hi")\n1 + 1',
+      language: 'python',
+      executionCount: 3,
+      failed: false,
+      outputs: [
+        { output_type: 'stream', name: 'stdout', text: ['hi\n', 'there'] },
+        {
+          output_type: 'display_data',
+          data: { 'text/plain': ['2'], 'text/html': ['<b>2</b>'] },
+          metadata: {},
+        },
+      ],
+    });
+    expect(recorded.timeout).toBeUndefined();
+  });
+
+  it('reads results in the container MIME bundle shape', () => {
+    const { outputs } = recordCell(
+      'plot()',
+      'python',
+      execution({ results: [{ data: { 'image/png': 'iVBOR' } }] })
+    );
+    expect(outputs).toEqual([
+      {
+        output_type: 'display_data',
+        data: { 'image/png': ['iVBOR'] },
+        metadata: {},
+      },
+    ]);
+  });
+
+  it('marks cells with an error as failed', () => {
+    const recorded = recordCell(
+      '1 / 0',
+      'python',
+      execution({
+        error: {
+          name: 'ZeroDivisionError',
+          message: 'division by zero',
+          traceback: ['Traceback'],
+        },
+      }),
+      5000
+    );
+    expect(recorded.failed).toBe(true);
+    expect(recorded.timeout).toBe(5000);
+    expect(recorded.executionCount).toBeNull();
+    expect(recorded.outputs).toEqual([
+      {
+        output_type: 'error',
+        ename: 'ZeroDivisionError',
+        evalue: 'division by zero',
+        traceback: ['Traceback'],
+      },
+    ]);
+  });
+});
+
+describe('buildNotebook', () => {
+  it('builds an nbformat 4 notebook for the language', () => {
+    const notebook = buildNotebook([cell('a = 1\nb = 2\n')], {
+      stopOnError: false,
+    });
+    expect(notebook).toMatchObject({
+      nbformat: 4,
+      nbformat_minor: 5,
+      metadata: {
+        kernelspec: {
+          name: 'python3',
+          display_name: 'Python 3',
+          language: 'python',
+        },
+        language_info: { name: 'python' },
+      },
+    });
+    expect(notebook.cells).toEqual([
+      {
+        cell_type: 'code',
+        id: 'cell-1',
+        source: ['a = 1\n', 'b = 2\n'],
+        metadata: {},
+        outputs: [],
+        execution_count: null,
+      },
+    ]);
+  });
+
+  it('keeps per-cell timeouts in the cell metadata', () => {
+    const notebook = buildNotebook([cell('sleep()', 1000)], {
+      stopOnError: false,
+    });
+    expect(notebook.cells[0].metadata).toEqual({
+      tribble: { timeout: 1000 },
+    });
+  });
+
+  it('ends at the first failed cell with stopOnError', () => {
+    const failed = { ...cell('boom()'), failed: true };
+    const recorded = [cell('a = 1'), failed, cell('b = 2')];
+    expect(buildNotebook(recorded, { stopOnError: true }).cells).toHaveLength(
+      2
+    );
+    expect(buildNotebook(recorded, { stopOnError: false }).cells).toHaveLength(
+      3
+    );
+  });
+
+  it('falls back to the language name for unknown kernels', () => {
+    const recorded = [{ ...cell('x'), language: 'r' }];
+    const { metadata } = buildNotebook(recorded, { stopOnError: false });
+    expect(metadata.kernelspec).toEqual({
+      name: 'r',
+      display_name: 'r',
+      language: 'r',
+    });
+  });
+});
+
+describe('runNotebook', () => {
+  const encoder = new TextEncoder();
+  const python = { id: 'ctx-1', language: 'python' } as CodeContext;
+
+  /** Cells named `hang` never finish; every other cell prints its code */
+  const executor = {
+    runCodeStream: async (code: string) =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          const send = (event: object) =>
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+            );
+          send({ type: 'stdout', text: code });
+          if (code !== 'hang') {
+            send({ type: 'execution_complete', execution_count: 1 });
+            controller.close();
+          }
+        },
+      }),
+  };
+
+  function notebook(...sources: string[]): Notebook {
+    return {
+      nbformat: 4,
+      nbformat_minor: 5,
+      metadata: {},
+      cells: sources.map((source) => ({
+        cell_type: 'code',
+        source,
+        metadata: {},
+      })),
+    };
+  }
+
+  it('interrupts a cell that exceeds its timeout and continues', async () => {
+    const interrupt = vi.fn(async () => true);
+    const cells = notebook('a', 'hang', 'b');
+    const run = await runNotebook(executor, python, cells, {
+      stopOnError: false,
+      cellTimeout: 20,
+      interrupt,
+    });
+    expect(interrupt).toHaveBeenCalledOnce();
+    expect(run.summary).toEqual({
+      executed: 3,
+      failed: 1,
+      skipped: 0,
+      stopped: false,
+    });
+    expect(run.executed[1].outputs).toContainEqual(
+      expect.objectContaining({ ename: 'TimeoutError' })
+    );
+  });
+
+  it('skips the remaining cells when the interrupt fails', async () => {
+    const run = await runNotebook(executor, python, notebook('hang', 'b'), {
+      stopOnError: false,
+      cellTimeout: 20,
+      interrupt: async () => {
+        throw new Error('no pid');
+      },
+    });
+    expect(run.summary).toEqual({
+      executed: 1,
+      failed: 1,
+      skipped: 1,
+      stopped: true,
+    });
+    expect(run.executed[0].outputs.at(-1)).toMatchObject({
+      ename: 'TimeoutError',
+      evalue: expect.stringContaining('could not be interrupted'),
+    });
+  });
+
+  it('rejects timeouts for contexts that cannot be interrupted', async () => {
+    const javascript = { id: 'ctx-2', language: 'javascript' } as CodeContext;
+    await expect(
+      runNotebook(executor, javascript, notebook('a'), {
+        stopOnError: true,
+        cellTimeout: 1000,
+      })
+    ).rejects.toMatchObject({ status: 422, code: 'UNSUPPORTED_TIMEOUT' });
+    const run = await runNotebook(executor, javascript, notebook('a'), {
+      stopOnError: true,
+    });
+    expect(run.summary.failed).toBe(0);
+  });
+});
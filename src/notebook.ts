@@ -0,0 +1,366 @@
+import {
+  type CodeContext,
+  type ExecutionResult,
+  type ExecutionSession,
+} from '@cloudflare/sandbox';
+import { canInterrupt } from './contexts';
+import { ApiError } from './errors';
+import {
+  applyEvent,
+  interpreterEvents,
+  MIME_TYPES,
+  normalizeResult,
+  type RichResult,
+} from './interpreter';
+
+type NotebookExecutor = Pick<ExecutionSession, 'runCodeStream'>;
+
+export type MimeBundle = Record<string, unknown>;
+
+export type NotebookOutput =
+  | {
+      output_type: 'stream';
+      name: 'stdout' | 'stderr';
+      text: string | string[];
+    }
+  | {
+      output_type: 'execute_result';
+      execution_count: number | null;
+      data: MimeBundle;
+      metadata: Record<string, unknown>;
+    }
+  | {
+      output_type: 'display_data';
+      data: MimeBundle;
+      metadata: Record<string, unknown>;
+    }
+  | {
+      output_type: 'error';
+      ename: string;
+      evalue: string;
+      traceback: string[];
+    };
+
+export interface NotebookCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  id?: string;
+  source: string | string[];
+  metadata: Record<string, unknown>;
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+  [key: string]: unknown;
+}
+
+/** An nbformat 4 notebook */
+export interface Notebook {
+  nbformat: number;
+  nbformat_minor: number;
+  metadata: Record<string, unknown>;
+  cells: NotebookCell[];
+}
+
+/** A cell executed against a context, as recorded for export */
+export interface RecordedCell {
+  code: string;
+  language: string;
+  outputs: NotebookOutput[];
+  executionCount: number | null;
+  failed: boolean;
+  /** Per-cell timeout in milliseconds, if one was set */
+  timeout?: number;
+  executedAt: string;
+}
+
+export interface NotebookRunOptions {
+  stopOnError: boolean;
+  /** Default timeout for cells without their own, in milliseconds */
+  cellTimeout?: number;
+  /**
+   * Stop the cell that is still running once its timeout has passed.
+   * Resolves to whether the cell was stopped.
+   */
+  interrupt?: () => Promise<boolean>;
+}
+
+const KERNELS: Record<string, { name: string; display_name: string }> = {
+  python: { name: 'python3', display_name: 'Python 3' },
+  javascript: { name: 'javascript', display_name: 'JavaScript' },
+  typescript: { name: 'typescript', display_name: 'TypeScript' },
+};
+
+/** Split text into lines that keep their newline, as nbformat stores it */
+function lines(text: string) {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+export function sourceText(source: string | string[]) {
+  return Array.isArray(source) ? source.join('') : source;
+}
+
+/**
+ * Per-cell timeouts are read from and written to `metadata.tribble.timeout`
+ * so an exported notebook runs the same way when it is imported again.
+ */
+function cellTimeout(cell: NotebookCell) {
+  const settings = cell.metadata?.tribble as { timeout?: unknown } | undefined;
+  const timeout = settings?.timeout;
+  return typeof timeout === 'number' && timeout > 0 ? timeout : undefined;
+}
+
+function mimeBundle(result: RichResult) {
+  const bundle: MimeBundle = {};
+  for (const format of result.formats) {
+    if (format === 'chart') {
+      continue;
+    }
+    const content = result[format];
+    if (content !== undefined) {
+      bundle[MIME_TYPES[format]] =
+        typeof content === 'string' ? lines(content) : content;
+    }
+  }
+  if (result.chart?.image && !bundle['image/png']) {
+    bundle['image/png'] = result.chart.image;
+  }
+  return bundle;
+}
+
+/**
+ * Convert an execution into notebook outputs: output streams first, then
+ * each rich result as display data, then the error if there was one.
+ */
+export function executionOutputs(
+  execution: ExecutionResult
+): NotebookOutput[] {
+  const outputs: NotebookOutput[] = [];
+  for (const name of ['stdout', 'stderr'] as const) {
+    const text = execution.logs[name].join('');
+    if (text) {
+      outputs.push({ output_type: 'stream', name, text: lines(text) });
+    }
+  }
+  for (const result of execution.results ?? []) {
+    const data = mimeBundle(normalizeResult(result));
+    if (Object.keys(data).length > 0) {
+      outputs.push({ output_type: 'display_data', data, metadata: {} });
+    }
+  }
+  if (execution.error) {
+    outputs.push({
+      output_type: 'error',
+      ename: execution.error.name,
+      evalue: execution.error.message,
+      traceback: execution.error.traceback,
+    });
+  }
+  return outputs;
+}
+
+export function recordCell(
+  code: string,
+  language: string,
+  result: ExecutionResult,
+  timeout?: number
+): RecordedCell {
+  return {
+    code,
+    language,
+    outputs: executionOutputs(result),
+    executionCount: result.executionCount ?? null,
+    failed: result.error !== undefined,
+    timeout,
+    executedAt: new Date().toISOString(),
+  };
+}
+
+function failedCell(
+  code: string,
+  language: string,
+  error: unknown,
+  timeout?: number
+): RecordedCell {
+  return {
+    code,
+    language,
+    outputs: [
+      {
+        output_type: 'error',
+        ename: error instanceof Error ? error.name : 'Error',
+        evalue: error instanceof Error ? error.message : String(error),
+        traceback: [],
+      },
+    ],
+    executionCount: null,
+    failed: true,
+    timeout,
+    executedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Run a single cell. The container has no execution timeout of its own, so
+ * the cell's stream is aborted once its timeout passes and the cell is
+ * interrupted; it is recorded as a TimeoutError with the output it produced
+ * so far. `stuck` reports a cell that could not be interrupted and still
+ * occupies the context.
+ */
+async function runCell(
+  executor: NotebookExecutor,
+  context: CodeContext,
+  code: string,
+  timeout: number | undefined,
+  interrupt: NotebookRunOptions['interrupt']
+) {
+  const execution: ExecutionResult = {
+    code,
+    logs: { stdout: [], stderr: [] },
+    results: [],
+  };
+  const source = await executor.runCodeStream(code, { context });
+  const controller = new AbortController();
+  const timer = timeout
+    ? setTimeout(() => controller.abort(), timeout)
+    : undefined;
+  try {
+    for await (const event of interpreterEvents(source, controller.signal)) {
+      applyEvent(execution, event);
+    }
+    return { execution, stuck: false };
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      throw error;
+    }
+    // A failed interrupt leaves the cell running, like one never attempted
+    const interrupted = (await interrupt?.().catch(() => false)) ?? false;
+    applyEvent(execution, {
+      type: 'error',
+      name: 'TimeoutError',
+      message: interrupted
+        ? `Execution exceeded ${timeout}ms`
+        : `Execution exceeded ${timeout}ms and the cell could not be ` +
+          'interrupted, so the remaining cells were skipped',
+      traceback: [],
+      timestamp: Date.now(),
+    });
+    return { execution, stuck: !interrupted };
+  } finally {
+    clearTimeout(timer);
+    // Releases the container stream once the cell has finished
+    controller.abort();
+  }
+}
+
+/**
+ * Execute the code cells of a notebook in order inside a context and return
+ * a copy with outputs filled in. With `stopOnError`, cells after the first
+ * failure are left without outputs; cells after one that timed out and
+ * could not be interrupted always are.
+ */
+export async function runNotebook(
+  executor: NotebookExecutor,
+  context: CodeContext,
+  notebook: Notebook,
+  options: NotebookRunOptions
+) {
+  const timed =
+    options.cellTimeout !== undefined ||
+    notebook.cells.some((cell) => cellTimeout(cell) !== undefined);
+  if (timed && !canInterrupt(context)) {
+    throw new ApiError(
+      422,
+      'UNSUPPORTED_TIMEOUT',
+      'Cell timeouts need a context that can be interrupted, ' +
+        `${context.language} contexts cannot`
+    );
+  }
+
+  const executed: RecordedCell[] = [];
+  let failed = 0;
+  let skipped = 0;
+  let stopped = false;
+  const cells: NotebookCell[] = [];
+
+  for (const cell of notebook.cells) {
+    const code = sourceText(cell.source);
+    if (cell.cell_type !== 'code') {
+      cells.push(cell);
+      continue;
+    }
+    if (stopped || !code.trim()) {
+      skipped += stopped ? 1 : 0;
+      cells.push({ ...cell, outputs: [], execution_count: null });
+      continue;
+    }
+
+    const timeout = cellTimeout(cell) ?? options.cellTimeout;
+    let recorded: RecordedCell;
+    let stuck = false;
+    try {
+      const run = await runCell(
+        executor,
+        context,
+        code,
+        timeout,
+        options.interrupt
+      );
+      stuck = run.stuck;
+      recorded = recordCell(code, context.language, run.execution, timeout);
+    } catch (error) {
+      recorded = failedCell(code, context.language, error, timeout);
+    }
+    executed.push(recorded);
+    cells.push({
+      ...cell,
+      outputs: recorded.outputs,
+      execution_count: recorded.executionCount,
+    });
+    if (recorded.failed) {
+      failed++;
+      stopped = options.stopOnError || stuck;
+    }
+  }
+
+  return {
+    notebook: { ...notebook, cells },
+    executed,
+    summary: { executed: executed.length, failed, skipped, stopped },
+  };
+}
+
+/**
+ * Build a notebook from recorded cells. With `stopOnError` the notebook
+ * ends at the first failed cell, so it replays to the same state.
+ */
+export function buildNotebook(
+  recorded: RecordedCell[],
+  options: Pick<NotebookRunOptions, 'stopOnError'>
+): Notebook {
+  const failure = recorded.findIndex((cell) => cell.failed);
+  const included =
+    options.stopOnError && failure >= 0
+      ? recorded.slice(0, failure + 1)
+      : recorded;
+  const language = recorded[0]?.language ?? 'python';
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: {
+      kernelspec: {
+        ...(KERNELS[language] ?? { name: language, display_name: language }),
+        language,
+      },
+      language_info: { name: language },
+    },
+    cells: included.map((cell, index) => ({
+      cell_type: 'code',
+      id: `cell-${index + 1}`,
+      source: lines(cell.code),
+      metadata:
+        cell.timeout === undefined
+          ? {}
+          : { tribble: { timeout: cell.timeout } },
+      outputs: cell.outputs,
+      execution_count: cell.executionCount,
+    })),
+  };
+}
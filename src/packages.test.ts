@@ -0,0 +1,90 @@
+import { type ExecResult } from '@cloudflare/sandbox';
+import { describe, expect, it } from 'vitest';
+import { listPackages, mirror, packageName } from './packages';
+import { type Env } from './types';
+
+describe('packageName', () => {
+  it('strips pip version specifiers, extras and markers', () => {
+    expect(packageName('pip', 'pandas')).toBe('pandas');
+    expect(packageName('pip', 'pandas==2.2.3')).toBe('pandas');
+    expect(packageName('pip', 'pandas[excel]>=2')).toBe('pandas');
+    expect(packageName('pip', 'scikit-learn~=1.5')).toBe('scikit-learn');
+    expect(packageName('pip', 'zope.interface; python_version>"3"')).toBe(
+      'zope.interface'
+    );
+  });
+
+  it('returns pip specs without a name unchanged', () => {
+    expect(packageName('pip', './local_pkg')).toBe('./local_pkg');
+  });
+
+  it('strips npm versions and tags', () => {
+    expect(packageName('npm', 'lodash')).toBe('lodash');
+    expect(packageName('npm', 'lodash@4.17.21')).toBe('lodash');
+    expect(packageName('npm', 'typescript@next')).toBe('typescript');
+  });
+
+  it('keeps the scope of npm packages', () => {
+    expect(packageName('npm', '@scope/pkg')).toBe('@scope/pkg');
+    expect(packageName('npm', '@scope/pkg@1.2.0')).toBe('@scope/pkg');
+  });
+});
+
+describe('mirror', () => {
+  const env = (mirrors?: string) => ({ PACKAGE_MIRRORS: mirrors }) as Env;
+
+  it('returns the mirror configured for the package manager', () => {
+    const mirrors = '{"pip":"http://mirror:3141/simple/"}';
+    expect(mirror(env(mirrors), 'pip')).toBe('http://mirror:3141/simple/');
+    expect(mirror(env(mirrors), 'npm')).toBeUndefined();
+    expect(mirror(env(), 'pip')).toBeUndefined();
+  });
+
+  it.each([
+    ['not JSON', '{pip:', 'PACKAGE_MIRRORS is not valid JSON'],
+    ['not an object', '"http://mirror"', 'must be a JSON object'],
+    ['a URL without a scheme', '{"npm":"mirror:4873"}', 'PACKAGE_MIRRORS.npm'],
+    ['a relative URL', '{"pip":"/simple"}', 'PACKAGE_MIRRORS.pip'],
+    ['not a string', '{"npm":4873}', 'PACKAGE_MIRRORS.npm'],
+  ])('reports a configuration that is %s', (_, mirrors, message) => {
+    expect(() => mirror(env(mirrors), 'pip')).toThrow(message);
+    expect(() => mirror(env(mirrors), 'pip')).toThrow(
+      expect.objectContaining({ code: 'INVALID_CONFIGURATION' })
+    );
+  });
+});
+
+describe('listPackages', () => {
+  const executor = (result: Partial<ExecResult>) => ({
+    exec: async (command: string): Promise<ExecResult> => ({
+      success: true,
+      exitCode: 0,
+      stdout: '',
+      stderr: '',
+      command,
+      duration: 0,
+      timestamp: new Date().toISOString(),
+      ...result,
+    }),
+  });
+
+  it('reads the pip package list', async () => {
+    const stdout = '[{"name":"pandas","version":"2.2.3","editable":false}]';
+    expect(await listPackages(executor({ stdout }), 'python')).toEqual([
+      { name: 'pandas', version: '2.2.3' },
+    ]);
+  });
+
+  it('reports a failing listing as a sandbox conflict', async () => {
+    const failed = executor({
+      success: false,
+      exitCode: 1,
+      stderr: 'No module named pip',
+    });
+    await expect(listPackages(failed, 'python')).rejects.toMatchObject({
+      status: 409,
+      code: 'PACKAGE_LIST_FAILED',
+      message: 'No module named pip',
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { type ExecResult, type ExecutionSession } from '@cloudflare/sandbox';
+import { ApiError } from './errors';
+import { type Language } from './interpreter';
+import { shellQuote } from './shell';
+import { type Env } from './types';
+
+type PackageExecutor = Pick<ExecutionSession, 'exec'>;
+
+type PackageManager = 'pip' | 'npm';
+
+const MANAGERS: Record<Language, PackageManager> = {
+  python: 'pip',
+  javascript: 'npm',
+  typescript: 'npm',
+};
+
+/** Where contexts resolve modules from unless they were given another cwd */
+const DEFAULT_DIRECTORY = '/workspace';
+/** Kept below the container's command timeout so failures are reported */
+const INSTALL_TIMEOUT_SECONDS = 240;
+const ERROR_LINES = 20;
+
+export interface PackageInstallOptions {
+  /** Package index (pip) or registry (npm) to install from */
+  indexUrl?: string;
+  /** Directory npm installs into; ignored for Python */
+  directory?: string;
+}
+
+export interface PackageStatus {
+  spec: string;
+  name: string;
+  status: 'installed' | 'failed';
+  version?: string;
+  error?: string;
+}
+
+export interface InstalledPackage {
+  name: string;
+  version: string;
+}
+
+function configurationError(message: string) {
+  return new ApiError(
+    500,
+    'INVALID_CONFIGURATION',
+    message,
+    undefined,
+    'ConfigError'
+  );
+}
+
+/**
+ * PACKAGE_MIRRORS is a JSON object keyed by package manager, e.g.
+ * `{"pip": "http://mirror:3141/root/pypi/+simple/", "npm":
+ * "http://mirror:4873"}`. Installs use it unless the request names an index.
+ */
+export function mirror(env: Env, manager: PackageManager) {
+  if (!env.PACKAGE_MIRRORS) {
+    return undefined;
+  }
+  let mirrors: unknown;
+  try {
+    mirrors = JSON.parse(env.PACKAGE_MIRRORS);
+  } catch {
+    throw configurationError('PACKAGE_MIRRORS is not valid JSON');
+  }
+  if (typeof mirrors !== 'object' || mirrors === null) {
+    throw configurationError('PACKAGE_MIRRORS must be a JSON object');
+  }
+  // Every entry is checked so a bad one is reported whichever is used
+  for (const [key, url] of Object.entries(mirrors)) {
+    const protocol =
+      typeof url === 'string' && URL.canParse(url) && new URL(url).protocol;
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw configurationError(
+        `PACKAGE_MIRRORS.${key} must be an http(s) URL, got ` +
+          JSON.stringify(url)
+      );
+    }
+  }
+  return (mirrors as Partial<Record<PackageManager, string>>)[manager];
+}
+
+/**
+ * The requested name of a package spec, such as `pandas` for
+ * `pandas[excel]>=2` or `@scope/pkg` for `@scope/pkg@1.2.0`.
+ */
+export function packageName(manager: PackageManager, spec: string) {
+  if (manager === 'npm') {
+    const version = spec.indexOf('@', 1);
+    return version > 0 ? spec.slice(0, version) : spec;
+  }
+  return spec.match(/^[A-Za-z0-9][A-Za-z0-9._-]*/)?.[0] ?? spec;
+}
+
+/** pip compares names case-insensitively and treats `-`, `_` and `.` alike */
+function normalizeName(manager: PackageManager, name: string) {
+  return manager === 'pip' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+}
+
+function installCommand(
+  manager: PackageManager,
+  specs: string[],
+  indexUrl: string | undefined,
+  directory: string
+) {
+  const packages = specs.map(shellQuote).join(' ');
+  if (manager === 'npm') {
+    const registry = indexUrl ? ` --registry ${shellQuote(indexUrl)}` : '';
+    return (
+      `mkdir -p ${shellQuote(directory)} && ` +
+      `timeout ${INSTALL_TIMEOUT_SECONDS} npm install --no-audit --no-fund ` +
+      `--no-progress --prefix ${shellQuote(directory)}${registry} ${packages}`
+    );
+  }
+  let index = '';
+  if (indexUrl) {
+    index = ` --index-url ${shellQuote(indexUrl)}`;
+    const url = new URL(indexUrl);
+    // Local mirrors are usually served over plain HTTP
+    if (url.protocol === 'http:') {
+      index += ` --trusted-host ${shellQuote(url.hostname)}`;
+    }
+  }
+  // The image's Python is marked as externally managed; older pip versions
+  // ignore the variable, so it is safe to set unconditionally
+  return (
+    `PIP_BREAK_SYSTEM_PACKAGES=1 timeout ${INSTALL_TIMEOUT_SECONDS} ` +
+    `python3 -m pip install --disable-pip-version-check --no-input ` +
+    `--progress-bar off${index} ${packages}`
+  );
+}
+
+function listError(result: ExecResult) {
+  return new ApiError(
+    409,
+    'PACKAGE_LIST_FAILED',
+    result.stderr.trim() || 'Could not list installed packages',
+    { exitCode: result.exitCode },
+    'PackageError'
+  );
+}
+
+function installError(result: ExecResult) {
+  if (result.exitCode === 124) {
+    return `Timed out after ${INSTALL_TIMEOUT_SECONDS} seconds`;
+  }
+  const output = (result.stderr.trim() || result.stdout.trim()).split('\n');
+  // Retry warnings drown out the cause, so prefer the lines marked as errors
+  const errors = output.filter((line) =>
+    /^(ERROR|npm ERR!|npm error)/.test(line)
+  );
+  const lines = errors.length > 0 ? errors : output;
+  return lines.slice(-ERROR_LINES).join('\n') || 'Installation failed';
+}
+
+/**
+ * List the packages installed for a language: the Python environment for
+ * Python, and the dependencies of `directory` for JavaScript and TypeScript.
+ */
+export async function listPackages(
+  executor: PackageExecutor,
+  language: Language,
+  options: Pick<PackageInstallOptions, 'directory'> = {}
+): Promise<InstalledPackage[]> {
+  if (MANAGERS[language] === 'pip') {
+    const result = await executor.exec(
+      'python3 -m pip list --format=json --disable-pip-version-check'
+    );
+    if (!result.success) {
+      throw listError(result);
+    }
+    let packages: InstalledPackage[];
+    try {
+      packages = JSON.parse(result.stdout);
+    } catch {
+      throw listError(result);
+    }
+    return packages.map(({ name, version }) => ({ name, version }));
+  }
+
+  const directory = options.directory ?? DEFAULT_DIRECTORY;
+  // npm ls exits non-zero for extraneous or missing packages but still
+  // prints the tree, so only the output is checked
+  const result = await executor.exec(
+    `npm ls --json --depth=0 --prefix ${shellQuote(directory)}`
+  );
+  let tree: { dependencies?: Record<string, { version?: string }> };
+  try {
+    tree = JSON.parse(result.stdout || '{}');
+  } catch {
+    throw listError(result);
+  }
+  return Object.entries(tree.dependencies ?? {})
+    .filter(([, dependency]) => dependency.version)
+    .map(([name, dependency]) => ({ name, version: dependency.version! }));
+}
+
+/**
+ * Install packages for a language and report the outcome of each spec.
+ * Everything is installed in one go; if that fails, the specs are retried
+ * one at a time so a single bad spec does not fail the others.
+ */
+export async function installPackages(
+  executor: PackageExecutor,
+  env: Env,
+  language: Language,
+  specs: string[],
+  options: PackageInstallOptions = {}
+) {
+  const manager = MANAGERS[language];
+  const indexUrl = options.indexUrl ?? mirror(env, manager);
+  const directory = options.directory ?? DEFAULT_DIRECTORY;
+
+  const failures = new Map<string, string>();
+  const result = await executor.exec(
+    installCommand(manager, specs, indexUrl, directory)
+  );
+  if (!result.success) {
+    for (const spec of specs) {
+      const single =
+        specs.length === 1
+          ? result
+          : await executor.exec(
+              installCommand(manager, [spec], indexUrl, directory)
+            );
+      if (!single.success) {
+        failures.set(spec, installError(single));
+      }
+    }
+  }
+
+  const installed = await listPackages(executor, language, { directory });
+  const versions = new Map(
+    installed.map((pkg) => [normalizeName(manager, pkg.name), pkg.version])
+  );
+  const packages = specs.map((spec): PackageStatus => {
+    const name = packageName(manager, spec);
+    const error = failures.get(spec);
+    if (error !== undefined) {
+      return { spec, name, status: 'failed', error };
+    }
+    return {
+      spec,
+      name,
+      status: 'installed',
+      version: versions.get(normalizeName(manager, name)),
+    };
+  });
+
+  return {
+    success: failures.size === 0,
+    language,
+    manager,
+    indexUrl,
+    directory: manager === 'npm' ? directory : undefined,
+    packages,
+  };
+}
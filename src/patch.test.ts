@@ -0,0 +1,137 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { localExecutor, type LocalExecutor } from '../test/executor';
+import { applyDiff, applyOperations } from './patch';
+
+let executor: LocalExecutor;
+let root: string;
+let cleanup: () => Promise<void>;
+
+beforeEach(async () => {
+  ({ executor, root, cleanup } = await localExecutor());
+});
+
+afterEach(() => cleanup());
+
+describe('applyOperations', () => {
+  it('removes directories it created when rolling back', async () => {
+    await mkdir(join(root, 'src'));
+    await writeFile(join(root, 'src/index.ts'), 'original');
+    const result = await applyOperations(executor, root, [
+      { op: 'write', path: 'src/index.ts', content: 'changed' },
+      { op: 'write', path: 'docs/guide/intro.md', content: '# Intro' },
+      // mv refuses to move a directory into itself
+      { op: 'move', from: 'src', to: 'src/nested/src' },
+    ]);
+    expect(result.applied).toBe(false);
+    expect(result.results.map((entry) => entry.status)).toEqual([
+      'rolled_back',
+      'rolled_back',
+      'failed',
+    ]);
+    expect(await readFile(join(root, 'src/index.ts'), 'utf8')).toBe(
+      'original'
+    );
+    expect(existsSync(join(root, 'docs'))).toBe(false);
+    expect(existsSync(join(root, 'src/nested'))).toBe(false);
+  });
+
+  it('applies every operation in order', async () => {
+    await writeFile(join(root, 'old.txt'), 'old');
+    const result = await applyOperations(executor, root, [
+      { op: 'write', path: 'a/b.txt', content: 'aGk=', encoding: 'base64' },
+      { op: 'move', from: 'old.txt', to: 'a/new.txt' },
+      { op: 'mkdir', path: 'empty' },
+      { op: 'delete', path: 'a/b.txt' },
+    ]);
+    expect(result.applied).toBe(true);
+    expect(result.results[1]).toEqual({
+      path: `${root}/a/new.txt`,
+      op: 'move',
+      status: 'applied',
+      previousPath: `${root}/old.txt`,
+    });
+    expect(await readFile(join(root, 'a/new.txt'), 'utf8')).toBe('old');
+    expect(existsSync(join(root, 'a/b.txt'))).toBe(false);
+    expect(existsSync(join(root, 'empty'))).toBe(true);
+  });
+
+  it('reports conflicts without touching the tree', async () => {
+    await mkdir(join(root, 'src'));
+    await mkdir(join(root, 'lib'));
+    await writeFile(join(root, 'notes.txt'), 'notes');
+    const result = await applyOperations(executor, root, [
+      { op: 'write', path: 'created.txt', content: 'new' },
+      { op: 'write', path: 'src', content: 'x' },
+      { op: 'write', path: 'notes.txt/inner', content: 'x' },
+      { op: 'delete', path: 'missing.txt' },
+      { op: 'delete', path: 'lib' },
+      { op: 'move', from: 'created.txt', to: 'notes.txt' },
+      { op: 'mkdir', path: 'notes.txt' },
+    ]);
+    expect(result.applied).toBe(false);
+    expect(result.results.every(({ status }) => status === 'skipped')).toBe(
+      true
+    );
+    expect(result.conflicts).toEqual([
+      { path: `${root}/src`, reason: 'Path is a directory' },
+      { path: `${root}/notes.txt/inner`, reason: 'Parent path is a file' },
+      { path: `${root}/missing.txt`, reason: 'Path does not exist' },
+      { path: `${root}/lib`, reason: 'Path is a directory, set recursive' },
+      { path: `${root}/notes.txt`, reason: 'Destination already exists' },
+      { path: `${root}/notes.txt`, reason: 'Path is a file' },
+    ]);
+    expect(existsSync(join(root, 'created.txt'))).toBe(false);
+  });
+});
+
+describe('applyDiff', () => {
+  const diff = [
+    '--- a/app.py',
+    '+++ b/app.py',
+    '@@ -1 +1 @@',
+    "-print('hello')",
+    "+print('goodbye')",
+  ].join('\n');
+
+  beforeEach(async () => {
+    await mkdir(join(root, 'service'));
+    await writeFile(join(root, 'service/app.py'), "print('hello')\n");
+    await executor.exec('git init -q');
+  });
+
+  it('applies paths relative to a repository subdirectory', async () => {
+    const result = await applyDiff(executor, join(root, 'service'), diff);
+    expect(result).toEqual({
+      applied: true,
+      results: [
+        {
+          path: 'app.py',
+          op: 'patch',
+          status: 'applied',
+          additions: 1,
+          deletions: 1,
+        },
+      ],
+      conflicts: [],
+    });
+    expect(await readFile(join(root, 'service/app.py'), 'utf8')).toBe(
+      "print('goodbye')\n"
+    );
+  });
+
+  it('reports hunks that do not apply as conflicts', async () => {
+    await writeFile(join(root, 'service/app.py'), "print('hi')\n");
+    const result = await applyDiff(executor, join(root, 'service'), diff);
+    expect(result.applied).toBe(false);
+    expect(result.conflicts).toContainEqual({
+      path: 'app.py',
+      reason: 'Hunk failed at line 1',
+    });
+    expect(await readFile(join(root, 'service/app.py'), 'utf8')).toBe(
+      "print('hi')\n"
+    );
+  });
+});
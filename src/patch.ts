@@ -0,0 +1,374 @@
+import { type ExecutionSession } from '@cloudflare/sandbox';
+import { parseNumstat } from './git';
+import { shellQuote } from './shell';
+
+type PatchExecutor = Pick<ExecutionSession, 'exec' | 'writeFile'>;
+
+export type PatchOperation =
+  | {
+      op: 'write';
+      path: string;
+      content: string;
+      encoding?: 'utf-8' | 'base64';
+    }
+  | { op: 'delete'; path: string; recursive?: boolean }
+  | { op: 'move'; from: string; to: string }
+  | { op: 'mkdir'; path: string };
+
+export type PatchResultStatus =
+  | 'applied'
+  | 'failed'
+  | 'rolled_back'
+  | 'skipped';
+
+export interface PatchFileResult {
+  path: string;
+  op: PatchOperation['op'] | 'patch';
+  status: PatchResultStatus;
+  previousPath?: string;
+  additions?: number;
+  deletions?: number;
+  error?: string;
+}
+
+export interface PatchConflict {
+  path?: string;
+  reason: string;
+}
+
+export interface PatchResult {
+  applied: boolean;
+  results: PatchFileResult[];
+  conflicts: PatchConflict[];
+}
+
+type PathType = 'file' | 'directory' | 'missing';
+
+function resolvePath(cwd: string, path: string) {
+  const absolute = path.startsWith('/') ? path : `${cwd}/${path}`;
+  const parts: string[] = [];
+  for (const part of absolute.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return `/${parts.join('/')}`;
+}
+
+function parentOf(path: string) {
+  return path.slice(0, path.lastIndexOf('/')) || '/';
+}
+
+/** Every directory above `path`, excluding the root. */
+function ancestorsOf(path: string) {
+  const ancestors: string[] = [];
+  for (let parent = parentOf(path); parent !== '/'; parent = parentOf(parent)) {
+    ancestors.push(parent);
+  }
+  return ancestors;
+}
+
+function targetOf(operation: PatchOperation) {
+  return operation.op === 'move' ? operation.to : operation.path;
+}
+
+/**
+ * Look up the type of every path in a single round trip.
+ */
+async function pathTypes(executor: PatchExecutor, paths: string[]) {
+  const unique = [...new Set(paths)];
+  const script = `for p in ${unique.map(shellQuote).join(' ')}; do
+    if [ -d "$p" ]; then echo directory
+    elif [ -e "$p" ] || [ -L "$p" ]; then echo file
+    else echo missing; fi
+  done`;
+  const result = await executor.exec(script);
+  const types = result.stdout.trim().split('\n') as PathType[];
+  return new Map(unique.map((path, index) => [path, types[index]]));
+}
+
+/**
+ * Replay the operations against the current path types so conflicts are
+ * found before anything in the tree is touched.
+ */
+function findConflicts(
+  operations: PatchOperation[],
+  types: Map<string, PathType>
+) {
+  const state = new Map(types);
+  const typeOf = (path: string): PathType => state.get(path) ?? 'missing';
+  const conflicts: PatchConflict[] = [];
+  const conflict = (path: string, reason: string) =>
+    conflicts.push({ path, reason });
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'write':
+        if (typeOf(operation.path) === 'directory') {
+          conflict(operation.path, 'Path is a directory');
+        } else if (typeOf(parentOf(operation.path)) === 'file') {
+          conflict(operation.path, 'Parent path is a file');
+        }
+        state.set(operation.path, 'file');
+        break;
+      case 'delete':
+        if (typeOf(operation.path) === 'missing') {
+          conflict(operation.path, 'Path does not exist');
+        } else if (
+          typeOf(operation.path) === 'directory' &&
+          !operation.recursive
+        ) {
+          conflict(operation.path, 'Path is a directory, set recursive');
+        }
+        state.set(operation.path, 'missing');
+        break;
+      case 'move':
+        if (typeOf(operation.from) === 'missing') {
+          conflict(operation.from, 'Source does not exist');
+        } else if (typeOf(operation.to) !== 'missing') {
+          conflict(operation.to, 'Destination already exists');
+        } else if (typeOf(parentOf(operation.to)) === 'file') {
+          conflict(operation.to, 'Parent path is a file');
+        }
+        state.set(operation.to, typeOf(operation.from));
+        state.set(operation.from, 'missing');
+        break;
+      case 'mkdir':
+        if (typeOf(operation.path) === 'file') {
+          conflict(operation.path, 'Path is a file');
+        }
+        state.set(operation.path, 'directory');
+        break;
+    }
+  }
+  return conflicts;
+}
+
+function applyCommand(operation: PatchOperation, staged: string) {
+  switch (operation.op) {
+    case 'write': {
+      const path = shellQuote(operation.path);
+      const parent = shellQuote(parentOf(operation.path));
+      return `mkdir -p ${parent} && mv -f ${shellQuote(staged)} ${path}`;
+    }
+    case 'delete': {
+      const flags = operation.recursive ? '-rf' : '-f';
+      return `rm ${flags} ${shellQuote(operation.path)}`;
+    }
+    case 'move': {
+      const parent = shellQuote(parentOf(operation.to));
+      const from = shellQuote(operation.from);
+      return `mkdir -p ${parent} && mv ${from} ${shellQuote(operation.to)}`;
+    }
+    case 'mkdir':
+      return `mkdir -p ${shellQuote(operation.path)}`;
+  }
+}
+
+/**
+ * Apply file operations all or nothing. Everything is validated up front,
+ * write contents are staged outside the tree and every touched path is
+ * backed up so a failing step restores the original state.
+ */
+export async function applyOperations(
+  executor: PatchExecutor,
+  cwd: string,
+  input: PatchOperation[]
+): Promise<PatchResult> {
+  const operations = input.map((operation) =>
+    operation.op === 'move'
+      ? {
+          ...operation,
+          from: resolvePath(cwd, operation.from),
+          to: resolvePath(cwd, operation.to),
+        }
+      : { ...operation, path: resolvePath(cwd, operation.path) }
+  );
+  const touched = [
+    ...new Set(
+      operations.flatMap((operation) =>
+        operation.op === 'move'
+          ? [operation.from, operation.to]
+          : [operation.path]
+      )
+    ),
+  ];
+  const ancestors = [
+    ...new Set(operations.map(targetOf).flatMap(ancestorsOf)),
+  ];
+  const types = await pathTypes(executor, [...touched, ...ancestors]);
+  const results: PatchFileResult[] = operations.map((operation) => ({
+    path: targetOf(operation),
+    op: operation.op,
+    status: 'skipped',
+    ...(operation.op === 'move' ? { previousPath: operation.from } : {}),
+  }));
+  const conflicts = findConflicts(operations, types);
+  if (conflicts.length > 0) {
+    return { applied: false, results, conflicts };
+  }
+  // Directories that `mkdir -p` may create, only the outermost need removing
+  const created = ancestors.filter(
+    (path) =>
+      types.get(path) === 'missing' &&
+      types.get(parentOf(path)) !== 'missing'
+  );
+
+  const stage = `/tmp/tribble-patch-${crypto.randomUUID()}`;
+  const cleanup = () => executor.exec(`rm -rf ${shellQuote(stage)}`);
+  try {
+    await executor.exec(`mkdir -p ${shellQuote(stage)}/backup`);
+    for (const [index, operation] of operations.entries()) {
+      if (operation.op === 'write') {
+        await executor.writeFile(`${stage}/${index}`, operation.content, {
+          encoding: operation.encoding,
+        });
+      }
+    }
+    const backups = touched
+      .map((path, index) => ({ path, backup: `${stage}/backup/${index}` }))
+      .filter(({ path }) => types.get(path) !== 'missing');
+    const copies = backups.map(
+      ({ path, backup }) => `cp -a ${shellQuote(path)} ${shellQuote(backup)}`
+    );
+    const backup = await executor.exec(copies.join(' && ') || 'true');
+    if (!backup.success) {
+      throw new Error(backup.stderr.trim() || 'Failed to back up files');
+    }
+
+    for (const [index, operation] of operations.entries()) {
+      const result = await executor.exec(
+        applyCommand(operation, `${stage}/${index}`)
+      );
+      if (result.success) {
+        results[index].status = 'applied';
+        continue;
+      }
+
+      results[index].status = 'failed';
+      results[index].error = result.stderr.trim() || 'Operation failed';
+      // Put every touched path back the way it was
+      const restore = touched.map((path) => {
+        const saved = backups.find((entry) => entry.path === path);
+        const remove = `rm -rf ${shellQuote(path)}`;
+        if (!saved) {
+          return remove;
+        }
+        const source = shellQuote(saved.backup);
+        return `${remove} && cp -a ${source} ${shellQuote(path)}`;
+      });
+      const directories = created.map((path) => `rm -rf ${shellQuote(path)}`);
+      await executor.exec([...restore, ...directories].join(' ; '));
+      for (const entry of results.slice(0, index)) {
+        entry.status = 'rolled_back';
+      }
+      return { applied: false, results, conflicts };
+    }
+    return { applied: true, results, conflicts };
+  } finally {
+    await cleanup().catch(() => {});
+  }
+}
+
+/**
+ * Parse `git apply --check` errors into conflicts.
+ */
+function parseApplyErrors(stderr: string): PatchConflict[] {
+  return stderr
+    .split('\n')
+    .filter((line) => line.startsWith('error: '))
+    .map((line) => line.slice('error: '.length))
+    .map((line) => {
+      const failed = line.match(/^patch failed: (.+):(\d+)$/);
+      if (failed) {
+        return { path: failed[1], reason: `Hunk failed at line ${failed[2]}` };
+      }
+      const match = line.match(/^(.+?): (.+)$/);
+      return match ? { path: match[1], reason: match[2] } : { reason: line };
+    });
+}
+
+/**
+ * Build the `git apply` invocation for a diff whose paths are relative to
+ * `cwd`. Run from a repository subdirectory, git would read the paths as
+ * relative to the repository root and quietly skip any outside `cwd`, so it
+ * runs from the root with the subdirectory as `--directory` instead.
+ */
+async function gitApply(executor: PatchExecutor, cwd: string, strip: number) {
+  const location = await executor.exec(
+    `git -C ${shellQuote(cwd)} rev-parse --show-toplevel --show-prefix`
+  );
+  const [root, prefix = ''] = location.stdout.split('\n');
+  if (!location.success || !prefix) {
+    return { git: `git -C ${shellQuote(cwd)} apply -p${strip}`, prefix: '' };
+  }
+  const directory = `--directory=${shellQuote(prefix)}`;
+  return {
+    git: `git -C ${shellQuote(root)} apply -p${strip} ${directory}`,
+    prefix,
+  };
+}
+
+/**
+ * Apply a unified diff relative to `cwd`. `git apply` is already all or
+ * nothing, so the diff is checked first only to report conflicts.
+ */
+export async function applyDiff(
+  executor: PatchExecutor,
+  cwd: string,
+  diff: string,
+  strip = 1
+): Promise<PatchResult> {
+  const file = `/tmp/tribble-patch-${crypto.randomUUID()}.diff`;
+  await executor.writeFile(file, diff.endsWith('\n') ? diff : `${diff}\n`);
+  const { git, prefix } = await gitApply(executor, cwd, strip);
+  // Report paths relative to `cwd` like the diff itself
+  const relative = (path: string) =>
+    path.startsWith(prefix) ? path.slice(prefix.length) : path;
+  const conflictsOf = (stderr: string) =>
+    parseApplyErrors(stderr).map((conflict) =>
+      conflict.path ? { ...conflict, path: relative(conflict.path) } : conflict
+    );
+  try {
+    const patch = shellQuote(file);
+    const numstat = await executor.exec(`${git} --numstat ${patch}`);
+    if (!numstat.success) {
+      return {
+        applied: false,
+        results: [],
+        conflicts: [{ reason: numstat.stderr.trim() || 'Invalid diff' }],
+      };
+    }
+    const results = parseNumstat(numstat.stdout).map(
+      ({ path, additions, deletions }): PatchFileResult => ({
+        path: relative(path),
+        op: 'patch',
+        status: 'skipped',
+        additions,
+        deletions,
+      })
+    );
+
+    const check = await executor.exec(`${git} --check ${patch}`);
+    if (!check.success) {
+      return {
+        applied: false,
+        results,
+        conflicts: conflictsOf(check.stderr),
+      };
+    }
+    const apply = await executor.exec(`${git} ${patch}`);
+    for (const result of results) {
+      result.status = apply.success ? 'applied' : 'failed';
+    }
+    return {
+      applied: apply.success,
+      results,
+      conflicts: apply.success ? [] : conflictsOf(apply.stderr),
+    };
+  } finally {
+    await executor.exec(`rm -f ${shellQuote(file)}`).catch(() => {});
+  }
+}
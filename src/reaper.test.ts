@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryState, memoryStorage } from '../test/storage';
+import { parseDuration, reapSandboxes } from './reaper';
+import { SandboxRegistry } from './registry';
+import { type Env } from './types';
+
+interface FakeSandbox {
+  state: string;
+  processes: { status: string }[];
+  destroyed: boolean;
+}
+
+const sandboxes = new Map<string, FakeSandbox>();
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: (_namespace: unknown, identity: string) => {
+    const sandbox = sandboxes.get(identity)!;
+    return {
+      getState: async () => ({ status: sandbox.state }),
+      listProcesses: async () => sandbox.processes,
+      killAllProcesses: async () => sandbox.processes.length,
+      destroy: async () => {
+        sandbox.destroyed = true;
+      },
+    };
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.parse('2026-03-01T12:00:00.000Z');
+let storage: ReturnType<typeof memoryStorage>;
+let registry: SandboxRegistry;
+const env = {
+  Registry: { idFromName: () => 'global', get: () => registry },
+} as unknown as Env;
+
+/** Register a sandbox created and last used the given hours before now */
+async function add(
+  identity: string,
+  createdHoursAgo: number,
+  idleHours: number,
+  sandbox: Partial<FakeSandbox> = {}
+) {
+  sandboxes.set(identity, {
+    state: 'healthy',
+    processes: [],
+    destroyed: false,
+    ...sandbox,
+  });
+  const record = await registry.register({ identity });
+  await storage.put(`sandbox:${identity}`, {
+    ...record,
+    createdAt: new Date(now - createdHoursAgo * HOUR).toISOString(),
+    lastActivityAt: new Date(now - idleHours * HOUR).toISOString(),
+  });
+}
+
+describe('parseDuration', () => {
+  it('reads seconds, minutes, hours and days', () => {
+    expect(parseDuration('45')).toBe(45_000);
+    expect(parseDuration('30s')).toBe(30_000);
+    expect(parseDuration('3m')).toBe(180_000);
+    expect(parseDuration(' 2h ')).toBe(2 * HOUR);
+    expect(parseDuration('1d')).toBe(24 * HOUR);
+  });
+
+  it('rejects other formats', () => {
+    expect(() => parseDuration('1.5h')).toThrow('Invalid duration: 1.5h');
+    expect(() => parseDuration('1w')).toThrow();
+  });
+});
+
+describe('reapSandboxes', () => {
+  beforeEach(() => {
+    sandboxes.clear();
+    storage = memoryStorage();
+    registry = new SandboxRegistry(memoryState(storage), env);
+  });
+
+  it('reclaims expired and idle sandboxes and audits them', async () => {
+    await add('fresh', 1, 0);
+    await add('expired', 30, 0, { processes: [{ status: 'running' }] });
+    await add('idle', 5, 3);
+
+    expect(await reapSandboxes(env, now)).toBe(2);
+    expect(sandboxes.get('fresh')?.destroyed).toBe(false);
+    expect(sandboxes.get('expired')?.destroyed).toBe(true);
+    expect(sandboxes.get('idle')?.destroyed).toBe(true);
+    expect((await registry.get('expired'))?.status).toBe('destroyed');
+
+    const audit = await registry.listReclaims(10);
+    expect(
+      audit.map(({ identity, reason, killedProcesses }) => ({
+        identity,
+        reason,
+        killedProcesses,
+      }))
+    ).toEqual(
+      expect.arrayContaining([
+        { identity: 'expired', reason: 'expired', killedProcesses: 1 },
+        { identity: 'idle', reason: 'idle', killedProcesses: 0 },
+      ])
+    );
+  });
+
+  it('spares idle sandboxes that are still running processes', async () => {
+    await add('busy', 5, 3, { processes: [{ status: 'running' }] });
+    // A stopped container is not woken up to list its processes
+    await add('asleep', 5, 3, {
+      state: 'stopped',
+      processes: [{ status: 'running' }],
+    });
+
+    expect(await reapSandboxes(env, now)).toBe(1);
+    expect(sandboxes.get('busy')?.destroyed).toBe(false);
+    expect(sandboxes.get('asleep')?.destroyed).toBe(true);
+  });
+
+  it('honours configured limits', async () => {
+    await add('short-lived', 2, 0);
+    const limits = { ...env, SANDBOX_MAX_LIFETIME: '1h' } as Env;
+    expect(await reapSandboxes(limits, now)).toBe(1);
+  });
+});
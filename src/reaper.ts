@@ -0,0 +1,116 @@
+import { getSandbox, type Sandbox } from '@cloudflare/sandbox';
+import { getRegistry, type SandboxRecord } from './registry';
+import { type Env } from './types';
+
+const DEFAULT_MAX_LIFETIME = '24h';
+const DEFAULT_IDLE_TIMEOUT = '2h';
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse durations in the same format as the sandbox `ttl` (30s, 3m, 1h),
+ * plus days. Bare numbers are seconds.
+ */
+export function parseDuration(value: string) {
+  const match = value.trim().match(/^(\d+)\s*([smhd]?)$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  return Number(match[1]) * UNIT_MS[match[2] || 's'];
+}
+
+function reclaimReason(
+  record: SandboxRecord,
+  now: number,
+  maxLifetime: number,
+  idleTimeout: number
+) {
+  if (now - Date.parse(record.createdAt) > maxLifetime) {
+    return 'expired' as const;
+  }
+  if (now - Date.parse(record.lastActivityAt) > idleTimeout) {
+    return 'idle' as const;
+  }
+  return null;
+}
+
+/**
+ * Registry activity only covers requests, so a sandbox busy with background
+ * work such as a Claude job or a dev server is still in use while its
+ * processes run. Stopped containers are not woken up to find out.
+ */
+async function hasRunningProcesses(sandbox: Sandbox) {
+  const state = await sandbox.getState().catch(() => null);
+  if (state?.status !== 'running' && state?.status !== 'healthy') {
+    return false;
+  }
+  const processes = await sandbox.listProcesses().catch(() => []);
+  return processes.some((process) => process.status === 'running');
+}
+
+/**
+ * Destroy active sandboxes that outlived SANDBOX_MAX_LIFETIME or have been
+ * idle longer than SANDBOX_IDLE_TIMEOUT. Idle sandboxes with running
+ * processes are spared. Running processes are killed first and every
+ * reclaimed sandbox gets an audit record in the registry.
+ */
+export async function reapSandboxes(env: Env, now = Date.now()) {
+  const maxLifetime = parseDuration(
+    env.SANDBOX_MAX_LIFETIME ?? DEFAULT_MAX_LIFETIME
+  );
+  const idleTimeout = parseDuration(
+    env.SANDBOX_IDLE_TIMEOUT ?? DEFAULT_IDLE_TIMEOUT
+  );
+  const registry = getRegistry(env);
+
+  const candidates: {
+    record: SandboxRecord;
+    reason: 'expired' | 'idle';
+  }[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await registry.list({ status: 'active', limit: 100, cursor });
+    for (const record of page.sandboxes) {
+      const reason = reclaimReason(record, now, maxLifetime, idleTimeout);
+      if (reason) {
+        candidates.push({ record, reason });
+      }
+    }
+    cursor = page.cursor;
+  } while (cursor);
+
+  let reclaimed = 0;
+  for (const { record, reason } of candidates) {
+    const sandbox = getSandbox(env.Sandbox, record.identity);
+    if (reason === 'idle' && (await hasRunningProcesses(sandbox))) {
+      continue;
+    }
+    reclaimed++;
+    let killedProcesses = 0;
+    let error: string | undefined;
+    try {
+      killedProcesses = await sandbox.killAllProcesses().catch(() => 0);
+      await sandbox.destroy();
+      await registry.markDestroyed(record.identity);
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      console.error(`Failed to reclaim sandbox ${record.identity}`, err);
+    }
+    await registry.recordReclaim({
+      identity: record.identity,
+      reason,
+      reclaimedAt: new Date(now).toISOString(),
+      createdAt: record.createdAt,
+      lastActivityAt: record.lastActivityAt,
+      killedProcesses,
+      error,
+    });
+  }
+
+  return reclaimed;
+}
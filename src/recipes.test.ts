@@ -0,0 +1,183 @@
+import { type ExecResult } from '@cloudflare/sandbox';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { recipeScopes, runRecipe } from './recipes';
+import { parseTemplateDocument, type SandboxTemplate } from './templates';
+import { type Env } from './types';
+
+const env = {
+  GIT_CREDENTIALS: JSON.stringify({ 'git.example.com': 'sekrit' }),
+} as Env;
+
+function execResult(command: string, exitCode = 0, stderr = ''): ExecResult {
+  return {
+    success: exitCode === 0,
+    exitCode,
+    stdout: '',
+    stderr,
+    command,
+    duration: 0,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Sandbox whose commands fail when they mention `false` */
+function fakeExecutor() {
+  return {
+    exec: vi.fn(async (command: string) =>
+      command.includes('false')
+        ? execResult(command, 1, 'token sekrit rejected')
+        : execResult(command)
+    ),
+    gitCheckout: vi.fn(async (repoUrl: string, options: object) => ({
+      success: true,
+      repoUrl,
+      branch: 'main',
+      targetDir: '/workspace/app',
+      timestamp: '',
+      ...options,
+    })),
+    writeFile: vi.fn(),
+    deleteFile: vi.fn(),
+    startProcess: vi.fn(async (_command: string) => ({ id: 'proc-1' })),
+    getProcess: vi.fn(async () => ({ status: 'running' })),
+    getProcessLogs: vi.fn(async () => ({ stdout: '', stderr: '' })),
+    exposePort: vi.fn(async (port: number) => ({
+      url: `https://${port}-box.example.com`,
+    })),
+  };
+}
+
+type RecipeExecutor = Parameters<typeof runRecipe>[0];
+
+function run(executor: ReturnType<typeof fakeExecutor>, template: object) {
+  return runRecipe(
+    executor as unknown as RecipeExecutor,
+    env,
+    template as SandboxTemplate,
+    { hostname: 'example.com' }
+  );
+}
+
+describe('runRecipe', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the steps in order in the checked out repository', async () => {
+    vi.useFakeTimers();
+    const executor = fakeExecutor();
+    const recipe = run(executor, {
+      repo: { url: 'https://github.com/octo/app' },
+      env: { NODE_ENV: 'development' },
+      setup: ['npm ci', { name: 'Build', command: 'npm run build' }],
+      services: [{ name: 'web', command: 'npm start', env: { PORT: '8080' } }],
+      ports: [{ port: 8080, name: 'web' }],
+    });
+    await vi.advanceTimersByTimeAsync(1_000);
+    const { success, steps } = await recipe;
+
+    expect(success).toBe(true);
+    const summary = steps.map(({ type, name, status }) => [type, name, status]);
+    expect(summary).toEqual([
+      ['checkout', 'https://github.com/octo/app', 'succeeded'],
+      ['setup', 'npm ci', 'succeeded'],
+      ['setup', 'Build', 'succeeded'],
+      ['service', 'web', 'succeeded'],
+      ['port', 'web', 'succeeded'],
+    ]);
+    expect(executor.exec.mock.calls[0][0]).toContain("cd '/workspace/app'");
+    const [service] = executor.startProcess.mock.calls[0];
+    expect(service).toContain("export NODE_ENV='development'");
+    expect(service).toContain("export PORT='8080'");
+    expect(steps[3].processId).toBe('proc-1');
+    expect(steps[4].url).toBe('https://8080-box.example.com');
+  });
+
+  it('stops at the first failure and redacts its output', async () => {
+    const executor = fakeExecutor();
+    const { success, steps } = await run(executor, {
+      setup: ['true', 'false', 'echo never'],
+      ports: [{ port: 3000 }],
+    });
+    expect(success).toBe(false);
+    expect(steps.map(({ status }) => status)).toEqual([
+      'succeeded',
+      'failed',
+      'skipped',
+      'skipped',
+    ]);
+    expect(steps[1]).toMatchObject({
+      exitCode: 1,
+      stderr: 'token *** rejected',
+    });
+    expect(steps[3]).toEqual({ type: 'port', name: '3000', status: 'skipped' });
+    expect(executor.exposePort).not.toHaveBeenCalled();
+  });
+
+  it('reports a service that exits right away', async () => {
+    vi.useFakeTimers();
+    const executor = fakeExecutor();
+    executor.getProcess.mockResolvedValue({ status: 'completed' });
+    executor.getProcessLogs.mockResolvedValue({
+      stdout: '',
+      stderr: 'EADDRINUSE',
+    });
+    const recipe = run(executor, {
+      services: [{ name: 'web', command: 'npm start' }],
+    });
+    await vi.advanceTimersByTimeAsync(1_000);
+    const { success, steps } = await recipe;
+    expect(success).toBe(false);
+    expect(steps[0]).toMatchObject({
+      status: 'failed',
+      stderr: 'EADDRINUSE',
+      error: 'Service completed right after starting',
+    });
+  });
+
+  it('turns thrown errors into a failed step', async () => {
+    const executor = fakeExecutor();
+    executor.exposePort.mockRejectedValue(new Error('Port 22 is reserved'));
+    const { steps } = await run(executor, { ports: [{ port: 22 }] });
+    expect(steps[0]).toMatchObject({
+      status: 'failed',
+      error: 'Port 22 is reserved',
+    });
+  });
+});
+
+describe('recipeScopes', () => {
+  it('needs the write scope of every route group the recipe uses', () => {
+    expect(recipeScopes({} as SandboxTemplate)).toEqual([]);
+    expect(
+      recipeScopes({
+        repo: { url: 'https://github.com/octo/app' },
+        setup: ['npm ci'],
+        services: [{ name: 'web', command: 'npm start' }],
+        ports: [{ port: 8080 }],
+      } as SandboxTemplate)
+    ).toEqual([
+      'git:write',
+      'commands:write',
+      'processes:write',
+      'ports:write',
+    ]);
+  });
+});
+
+describe('parseTemplateDocument', () => {
+  it('reads YAML and JSON documents', () => {
+    expect(parseTemplateDocument('setup:\n  - npm ci\n')).toEqual({
+      setup: ['npm ci'],
+    });
+    expect(parseTemplateDocument('{"ports": [{"port": 80}]}')).toEqual({
+      ports: [{ port: 80 }],
+    });
+  });
+
+  it('rejects documents that do not parse', () => {
+    expect(() => parseTemplateDocument('setup: [npm ci')).toThrow(
+      expect.objectContaining({ status: 422, code: 'INVALID_TEMPLATE' })
+    );
+  });
+});
@@ -0,0 +1,229 @@
+import { type Sandbox } from '@cloudflare/sandbox';
+import { redact } from './credentials';
+import { checkoutRepository } from './git';
+import { withShellOptions } from './shell';
+import { type SandboxTemplate, type TemplateCommand } from './templates';
+import { type Env } from './types';
+
+type RecipeExecutor = Pick<
+  Sandbox,
+  | 'exec'
+  | 'gitCheckout'
+  | 'writeFile'
+  | 'deleteFile'
+  | 'startProcess'
+  | 'getProcess'
+  | 'getProcessLogs'
+  | 'exposePort'
+>;
+
+export type RecipeStepType = 'checkout' | 'setup' | 'service' | 'port';
+
+export interface RecipeStep {
+  type: RecipeStepType;
+  name: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  durationMs?: number;
+  exitCode?: number;
+  stdout?: string;
+  stderr?: string;
+  processId?: string;
+  url?: string;
+  targetDir?: string;
+  error?: string;
+}
+
+export interface RecipeOptions {
+  /** Hostname preview URLs of exposed ports are served on */
+  hostname: string;
+}
+
+type StepOutcome = Omit<RecipeStep, 'type' | 'name' | 'status'> & {
+  failed?: boolean;
+};
+
+interface PlannedStep {
+  type: RecipeStepType;
+  name: string;
+  run: () => Promise<StepOutcome>;
+}
+
+/** Only the end of long setup output is kept in step results */
+const OUTPUT_LIMIT = 8_000;
+/** How long a service must stay up before it counts as started */
+const SERVICE_SETTLE_MS = 1_000;
+
+function tail(text: string, env: Env) {
+  const output = redact(text, env);
+  return output.length > OUTPUT_LIMIT ? output.slice(-OUTPUT_LIMIT) : output;
+}
+
+/**
+ * Turn a template into the ordered steps of its recipe. Commands and
+ * services run in the repository directory unless they set their own, so
+ * the directory is read when each step runs, after the checkout.
+ */
+function planSteps(
+  executor: RecipeExecutor,
+  env: Env,
+  template: SandboxTemplate,
+  options: RecipeOptions
+) {
+  const steps: PlannedStep[] = [];
+  let workdir: string | undefined;
+  const shellOptions = (step: TemplateCommand) => ({
+    cwd: step.cwd ?? workdir,
+    env: { ...template.env, ...step.env },
+  });
+
+  const repo = template.repo;
+  if (repo) {
+    steps.push({
+      type: 'checkout',
+      name: redact(repo.url, env),
+      run: async () => {
+        const result = await checkoutRepository(executor, env, repo.url, {
+          branch: repo.branch,
+          targetDir: repo.targetDir,
+        });
+        workdir = result.targetDir;
+        return { targetDir: result.targetDir };
+      },
+    });
+  }
+
+  for (const entry of template.setup ?? []) {
+    const step = typeof entry === 'string' ? { command: entry } : entry;
+    steps.push({
+      type: 'setup',
+      name: step.name ?? step.command,
+      run: async () => {
+        const result = await executor.exec(
+          withShellOptions(step.command, shellOptions(step))
+        );
+        return {
+          failed: !result.success,
+          exitCode: result.exitCode,
+          stdout: tail(result.stdout, env),
+          stderr: tail(result.stderr, env),
+        };
+      },
+    });
+  }
+
+  for (const service of template.services ?? []) {
+    steps.push({
+      type: 'service',
+      name: service.name,
+      run: async () => {
+        const process = await executor.startProcess(
+          withShellOptions(service.command, shellOptions(service))
+        );
+        await new Promise((resolve) => setTimeout(resolve, SERVICE_SETTLE_MS));
+        const current = await executor.getProcess(process.id);
+        if (!current || current.status === 'running') {
+          return { processId: process.id };
+        }
+        const logs = await executor
+          .getProcessLogs(process.id)
+          .catch(() => ({ stdout: '', stderr: '' }));
+        return {
+          failed: true,
+          processId: process.id,
+          exitCode: current.exitCode,
+          stdout: tail(logs.stdout, env),
+          stderr: tail(logs.stderr, env),
+          error: `Service ${current.status} right after starting`,
+        };
+      },
+    });
+  }
+
+  for (const { port, name } of template.ports ?? []) {
+    steps.push({
+      type: 'port',
+      name: name ?? String(port),
+      run: async () => {
+        const result = await executor.exposePort(port, {
+          hostname: options.hostname,
+          name,
+        });
+        return { url: result.url };
+      },
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * The route group scopes covering what a template's recipe does, so a
+ * template cannot do more than its caller could through the sandbox routes.
+ */
+export function recipeScopes(template: SandboxTemplate) {
+  const scopes: string[] = [];
+  if (template.repo) {
+    scopes.push('git:write');
+  }
+  if (template.setup?.length) {
+    scopes.push('commands:write');
+  }
+  if (template.services?.length) {
+    scopes.push('processes:write');
+  }
+  if (template.ports?.length) {
+    scopes.push('ports:write');
+  }
+  return scopes;
+}
+
+/**
+ * Run a template's recipe against a sandbox. Steps run in order and the
+ * recipe stops at the first failure; the steps after it are reported as
+ * skipped.
+ */
+export async function runRecipe(
+  executor: RecipeExecutor,
+  env: Env,
+  template: SandboxTemplate,
+  options: RecipeOptions
+) {
+  const steps: RecipeStep[] = [];
+  let failed = false;
+
+  for (const { type, name, run } of planSteps(
+    executor,
+    env,
+    template,
+    options
+  )) {
+    if (failed) {
+      steps.push({ type, name, status: 'skipped' });
+      continue;
+    }
+    const startTime = Date.now();
+    let outcome: StepOutcome;
+    try {
+      outcome = await run();
+    } catch (error) {
+      outcome = {
+        failed: true,
+        error: redact(
+          error instanceof Error ? error.message : String(error),
+          env
+        ),
+      };
+    }
+    const { failed: stepFailed, ...details } = outcome;
+    failed = stepFailed ?? false;
+    steps.push({
+      type,
+      name,
+      status: failed ? 'failed' : 'succeeded',
+      durationMs: Date.now() - startTime,
+      ...details,
+    });
+  }
+
+  return { success: !failed, steps };
+}
@@ -0,0 +1,125 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { memoryState, memoryStorage } from '../test/storage';
+import { SandboxRegistry, trackActivity } from './registry';
+import { type Env } from './types';
+
+async function registryWith(
+  count: number,
+  labelled: (index: number) => boolean
+) {
+  const storage = memoryStorage();
+  const registry = new SandboxRegistry(memoryState(storage), {} as Env);
+  for (let index = 0; index < count; index++) {
+    await registry.register({
+      identity: `sandbox-${String(index).padStart(3, '0')}`,
+      labels: labelled(index) ? { team: 'blue' } : {},
+    });
+  }
+  return { registry, storage };
+}
+
+describe('SandboxRegistry.list', () => {
+  it('reads a single page of records when nothing is filtered', async () => {
+    const { registry, storage } = await registryWith(50, () => true);
+    const first = await registry.list({ limit: 10 });
+    expect(first.sandboxes.map((record) => record.identity)).toEqual(
+      Array.from({ length: 10 }, (_, index) => `sandbox-00${index}`)
+    );
+    expect(first.cursor).toBe('sandbox-009');
+    expect(storage.list).toHaveBeenCalledTimes(1);
+    expect(storage.list).toHaveBeenCalledWith({
+      prefix: 'sandbox:',
+      startAfter: undefined,
+      limit: 11,
+    });
+
+    const second = await registry.list({ limit: 10, cursor: first.cursor });
+    expect(second.sandboxes[0].identity).toBe('sandbox-010');
+  });
+
+  it('keeps reading until a filtered page is full', async () => {
+    const { registry } = await registryWith(30, (index) => index % 7 === 0);
+    const labels = { team: 'blue' };
+    const first = await registry.list({ labels, limit: 2 });
+    expect(first.sandboxes.map((record) => record.identity)).toEqual([
+      'sandbox-000',
+      'sandbox-007',
+    ]);
+    expect(first.cursor).toBe('sandbox-007');
+
+    const cursor = first.cursor;
+    const rest = await registry.list({ labels, limit: 5, cursor });
+    expect(rest.sandboxes.map((record) => record.identity)).toEqual([
+      'sandbox-014',
+      'sandbox-021',
+      'sandbox-028',
+    ]);
+    expect(rest.cursor).toBeUndefined();
+  });
+
+  it('omits the cursor when the last page is exactly full', async () => {
+    const { registry } = await registryWith(4, () => true);
+    const page = await registry.list({ limit: 4 });
+    expect(page.sandboxes).toHaveLength(4);
+    expect(page.cursor).toBeUndefined();
+  });
+});
+
+describe('SandboxRegistry records', () => {
+  it('keeps creation time and metadata when re-registering', async () => {
+    const { registry } = await registryWith(0, () => false);
+    const first = await registry.register({
+      identity: 'sandbox-a',
+      ttl: '10m',
+      labels: { team: 'blue' },
+      owner: 'alice',
+    });
+    expect(first).toMatchObject({ ttl: '10m', keepAlive: false });
+    const again = await registry.register({ identity: 'sandbox-a' });
+    expect(again).toMatchObject({
+      createdAt: first.createdAt,
+      ttl: null,
+      keepAlive: true,
+      labels: { team: 'blue' },
+      owner: 'alice',
+    });
+  });
+
+  it('only records activity for active sandboxes', async () => {
+    const { registry } = await registryWith(1, () => false);
+    expect(await registry.touch('unknown')).toBeNull();
+    expect(await registry.touch('sandbox-000')).not.toBeNull();
+    const destroyed = await registry.markDestroyed('sandbox-000');
+    expect(destroyed).toMatchObject({ status: 'destroyed' });
+    expect(destroyed?.destroyedAt).toBeDefined();
+    expect(await registry.touch('sandbox-000')).toBeNull();
+    const active = await registry.list({ status: 'active', limit: 10 });
+    expect(active.sandboxes).toEqual([]);
+  });
+});
+
+describe('trackActivity', () => {
+  it('touches the sandbox named in the path of nested routes', async () => {
+    const registry = { touch: vi.fn(async () => null) };
+    const env = {
+      Registry: { idFromName: () => 'global', get: () => registry },
+    } as unknown as Env;
+    const ctx = {
+      waitUntil: vi.fn(),
+      passThroughOnException: () => {},
+      props: {},
+    } as unknown as ExecutionContext;
+    const app = new Hono<{ Bindings: Env }>();
+    app.use('/api/sandbox/*', trackActivity());
+    app.all('*', (c) => c.body(null, 204));
+
+    await app.request('/api/sandbox/my%20box/files/list', {}, env, ctx);
+    expect(registry.touch).toHaveBeenCalledWith('my box');
+    registry.touch.mockClear();
+
+    // Requests on the sandbox itself could race with its deletion
+    await app.request('/api/sandbox/my-box', { method: 'DELETE' }, env, ctx);
+    expect(registry.touch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import { DurableObject } from 'cloudflare:workers';
+import { createMiddleware } from 'hono/factory';
+import { type Env } from './types';
+
+export type SandboxRecordStatus = 'active' | 'destroyed';
+
+export interface SandboxRecord {
+  identity: string;
+  status: SandboxRecordStatus;
+  createdAt: string;
+  lastActivityAt: string;
+  destroyedAt?: string;
+  /** Sleep timeout passed at creation; null when the sandbox is kept alive */
+  ttl: string | null;
+  keepAlive: boolean;
+  labels: Record<string, string>;
+  owner?: string;
+}
+
+export interface SandboxRegistration {
+  identity: string;
+  ttl?: string;
+  labels?: Record<string, string>;
+  owner?: string;
+}
+
+export interface ReclaimAuditRecord {
+  identity: string;
+  reason: 'expired' | 'idle';
+  reclaimedAt: string;
+  createdAt: string;
+  lastActivityAt: string;
+  killedProcesses: number;
+  error?: string;
+}
+
+export interface SandboxListFilter {
+  status?: SandboxRecordStatus;
+  owner?: string;
+  labels?: Record<string, string>;
+  identities?: string[];
+  cursor?: string;
+  limit: number;
+}
+
+/**
+ * Durable Object holding the inventory of sandboxes created through the API.
+ * A single named instance is shared by the whole worker.
+ */
+export class SandboxRegistry extends DurableObject<Env> {
+  async register({ identity, ttl, labels, owner }: SandboxRegistration) {
+    const existing = await this.get(identity);
+    const now = new Date().toISOString();
+    const record: SandboxRecord = {
+      identity,
+      status: 'active',
+      createdAt: existing?.status === 'active' ? existing.createdAt : now,
+      lastActivityAt: now,
+      ttl: ttl ?? null,
+      keepAlive: ttl === undefined,
+      labels: labels ?? existing?.labels ?? {},
+      owner: owner ?? existing?.owner,
+    };
+    await this.ctx.storage.put(`sandbox:${identity}`, record);
+    return record;
+  }
+
+  async get(identity: string) {
+    return (
+      (await this.ctx.storage.get<SandboxRecord>(`sandbox:${identity}`)) ??
+      null
+    );
+  }
+
+  /**
+   * Record activity for a known sandbox. Unknown identities are ignored so
+   * the registry only lists sandboxes created through the API.
+   */
+  async touch(identity: string) {
+    const record = await this.get(identity);
+    if (!record || record.status !== 'active') {
+      return null;
+    }
+    record.lastActivityAt = new Date().toISOString();
+    await this.ctx.storage.put(`sandbox:${identity}`, record);
+    return record;
+  }
+
+  async markDestroyed(identity: string) {
+    const record = await this.get(identity);
+    if (!record) {
+      return null;
+    }
+    const now = new Date().toISOString();
+    record.status = 'destroyed';
+    record.destroyedAt = now;
+    record.lastActivityAt = now;
+    await this.ctx.storage.put(`sandbox:${identity}`, record);
+    return record;
+  }
+
+  /**
+   * Records are read in batches of one page, so a filtered listing only
+   * reads as far as it needs to fill the page.
+   */
+  async list(filter: SandboxListFilter) {
+    const { status, owner, labels, identities, cursor, limit } = filter;
+    const matches = (record: SandboxRecord) =>
+      (!status || record.status === status) &&
+      (!owner || record.owner === owner) &&
+      (!identities || identities.includes(record.identity)) &&
+      Object.entries(labels ?? {}).every(
+        ([key, value]) => record.labels[key] === value
+      );
+    const page: SandboxRecord[] = [];
+    let startAfter = cursor ? `sandbox:${cursor}` : undefined;
+    for (;;) {
+      const records = await this.ctx.storage.list<SandboxRecord>({
+        prefix: 'sandbox:',
+        startAfter,
+        limit: limit + 1,
+      });
+      for (const [key, record] of records) {
+        startAfter = key;
+        if (!matches(record)) {
+          continue;
+        }
+        if (page.length === limit) {
+          return { sandboxes: page, cursor: page[page.length - 1].identity };
+        }
+        page.push(record);
+      }
+      if (records.size <= limit) {
+        return { sandboxes: page, cursor: undefined };
+      }
+    }
+  }
+
+  async recordReclaim(entry: ReclaimAuditRecord) {
+    await this.ctx.storage.put(
+      `audit:${entry.reclaimedAt}:${entry.identity}`,
+      entry
+    );
+    return entry;
+  }
+
+  /**
+   * Most recent reclaim audit records first.
+   */
+  async listReclaims(limit: number) {
+    const entries = await this.ctx.storage.list<ReclaimAuditRecord>({
+      prefix: 'audit:',
+      reverse: true,
+      limit,
+    });
+    return [...entries.values()];
+  }
+}
+
+export function getRegistry(env: Env) {
+  return env.Registry.get(env.Registry.idFromName('global'));
+}
+
+/**
+ * Record activity for every request below `/sandbox/{identity}/`, so the
+ * reaper sees sandboxes that are only used through files, git, processes or
+ * the interpreter. Requests on the sandbox itself are left out so a touch
+ * cannot race with its deletion.
+ */
+export function trackActivity() {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const [, , resource, identity, group] = c.req.path.split('/');
+    if (resource === 'sandbox' && identity && group) {
+      c.executionCtx.waitUntil(
+        getRegistry(c.env).touch(decodeURIComponent(identity))
+      );
+    }
+    await next();
+  });
+}
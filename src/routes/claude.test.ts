@@ -0,0 +1,138 @@
+import { type ExecResult } from '@cloudflare/sandbox';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { memoryState } from '../../test/storage';
+import { ClaudeJobStore, type ClaudeJob } from '../jobs';
+import { type Env } from '../types';
+import app from './claude';
+
+const transcript = [
+  '{"type":"system","subtype":"init"}',
+  'Warning: not a JSON line',
+  '{"type":"assistant","message":{"content":[]}}',
+  '{"type":"result","result":"Fixed the failing test"}',
+  '{"no":"type"}',
+  '{"type":"partial',
+].join('\n');
+
+const sandbox = {
+  getProcess: vi.fn(),
+  getProcessLogs: vi.fn(async () => ({ stdout: transcript, stderr: '' })),
+  killProcess: vi.fn(async () => {}),
+  exec: vi.fn(
+    async (command: string): Promise<ExecResult> => ({
+      success: true,
+      exitCode: 0,
+      stdout: command.endsWith(' diff') ? 'diff --git a/x b/x\n' : '',
+      stderr: '',
+      command,
+      duration: 0,
+      timestamp: new Date().toISOString(),
+    })
+  ),
+};
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: () => sandbox,
+}));
+
+let store: ClaudeJobStore;
+const env = {
+  ClaudeJobs: { idFromName: () => 'jobs', get: () => store },
+} as unknown as Env;
+
+const running: ClaudeJob = {
+  id: 'job-1',
+  identity: 'sandbox-123',
+  processId: 'claude-job-1',
+  task: 'Fix the tests',
+  repoUrl: 'https://github.com/octo/repo',
+  branch: 'main',
+  targetDir: '/workspace/repo',
+  status: 'running',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function request(path: string, method = 'GET') {
+  return app.request(
+    `/sandbox/sandbox-123/claude/jobs/job-1${path}`,
+    { method },
+    env
+  );
+}
+
+interface JobStatusBody {
+  status: string;
+  transcript: Record<string, unknown>[];
+}
+
+async function poll() {
+  const response = await request('');
+  return (await response.json()) as JobStatusBody;
+}
+
+describe('Claude job routes', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    store = new ClaudeJobStore(memoryState(), env);
+    await store.put(running);
+  });
+
+  it('reports a running job with its transcript so far', async () => {
+    sandbox.getProcess.mockResolvedValue({ status: 'running' });
+    const body = await poll();
+    expect(body).toMatchObject({ id: 'job-1', status: 'running' });
+    // Lines that are not JSON messages with a type are dropped
+    expect(body.transcript).toHaveLength(3);
+    expect(body.transcript[2]).toEqual({
+      type: 'result',
+      result: 'Fixed the failing test',
+    });
+    expect((await request('/result')).status).toBe(409);
+  });
+
+  it('stores the result once the process has exited', async () => {
+    sandbox.getProcess.mockResolvedValue({ status: 'completed', exitCode: 0 });
+    expect((await poll()).status).toBe('completed');
+
+    // Finished jobs are served from the store alone
+    sandbox.getProcess.mockClear();
+    sandbox.getProcessLogs.mockClear();
+    const response = await request('/result');
+    expect(await response.json()).toEqual({
+      jobId: 'job-1',
+      status: 'completed',
+      exitCode: 0,
+      result: 'Fixed the failing test',
+      diff: 'diff --git a/x b/x\n',
+      changedFiles: [],
+    });
+    expect((await poll()).transcript).toHaveLength(3);
+    expect(sandbox.getProcess).not.toHaveBeenCalled();
+    expect(sandbox.getProcessLogs).not.toHaveBeenCalled();
+  });
+
+  it('marks a job that exited with an error as failed', async () => {
+    sandbox.getProcess.mockResolvedValue({
+      status: 'completed',
+      exitCode: 124,
+    });
+    const body = await (await request('/result')).json();
+    expect(body).toMatchObject({ status: 'failed', exitCode: 124 });
+  });
+
+  it('cancels a running job once', async () => {
+    sandbox.getProcess.mockResolvedValue({ status: 'running' });
+    const cancelled = await request('/cancel', 'POST');
+    expect(cancelled.status).toBe(200);
+    expect(await cancelled.json()).toMatchObject({ status: 'cancelled' });
+    expect(sandbox.killProcess).toHaveBeenCalledWith('claude-job-1');
+
+    const again = await request('/cancel', 'POST');
+    expect(again.status).toBe(409);
+    expect(await again.json()).toMatchObject({
+      error: { code: 'JOB_FINISHED' },
+    });
+  });
+});
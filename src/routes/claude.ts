@@ -0,0 +1,565 @@
+import { getSandbox, type ExecutionSession } from '@cloudflare/sandbox';
+import { createRoute, z } from '@hono/zod-openapi';
+import { createApp } from '../app';
+import {
+  errorBody,
+  errorResponse,
+  errorResponses,
+  toApiError,
+} from '../errors';
+import { checkoutRepository, parseChangedFiles } from '../git';
+import {
+  getJobStore,
+  type ClaudeJob,
+  type ClaudeJobOutput,
+  type ClaudeJobStatus,
+} from '../jobs';
+import { shellQuote, withShellOptions } from '../shell';
+import { type Env } from '../types';
+
+const app = createApp();
+
+const IdentityParamsSchema = z.object({
+  identity: z
+    .string()
+    .min(3)
+    .openapi({
+      param: {
+        name: 'identity',
+        in: 'path',
+      },
+      example: 'sandbox-123',
+    }),
+});
+
+const ClaudeTaskRequestSchema = z
+  .object({
+    repoUrl: z.string().url(),
+    task: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Instructions passed to Claude Code in headless mode',
+        example: 'Fix the failing unit tests',
+      }),
+    branch: z.string().optional(),
+    targetDir: z.string().optional(),
+    sessionId: z.string().min(3).optional(),
+    timeout: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .openapi({
+        description:
+          'Maximum time in milliseconds Claude Code may run, rounded up to ' +
+          'whole seconds. Claude is stopped with exit code 124 when it ' +
+          'runs out of time.',
+        example: 300000,
+      }),
+  })
+  .openapi('ClaudeTaskRequest');
+
+const ChangedFileSchema = z
+  .object({
+    path: z.string(),
+    status: z.string(),
+    previousPath: z.string().optional(),
+  })
+  .openapi('ChangedFile');
+
+const TranscriptMessageSchema = z
+  .object({ type: z.string() })
+  .catchall(z.unknown())
+  .openapi('ClaudeTranscriptMessage');
+
+const ClaudeTaskResultSchema = z
+  .object({
+    success: z.boolean(),
+    exitCode: z.number(),
+    repoUrl: z.string(),
+    branch: z.string(),
+    targetDir: z.string(),
+    result: z.string().optional(),
+    transcript: z.array(TranscriptMessageSchema),
+    stderr: z.string(),
+    diff: z.string(),
+    changedFiles: z.array(ChangedFileSchema),
+    duration: z.number(),
+    timestamp: z.string(),
+  })
+  .openapi('ClaudeTaskResult');
+
+const runClaudeTaskRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/claude/tasks',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: ClaudeTaskRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ClaudeTaskResultSchema,
+        },
+      },
+      description:
+        'Clone a repository, run Claude Code on it and return the transcript and diff',
+    },
+  },
+});
+
+const ClaudeJobParamsSchema = IdentityParamsSchema.extend({
+  jobId: z
+    .string()
+    .min(3)
+    .openapi({
+      param: {
+        name: 'jobId',
+        in: 'path',
+      },
+      example: 'job-123',
+    }),
+});
+
+const ClaudeJobSchema = z
+  .object({
+    id: z.string(),
+    identity: z.string(),
+    processId: z.string(),
+    sessionId: z.string().optional(),
+    task: z.string(),
+    repoUrl: z.string(),
+    branch: z.string(),
+    targetDir: z.string(),
+    status: z.enum(['running', 'completed', 'failed', 'cancelled']),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    finishedAt: z.string().optional(),
+  })
+  .openapi('ClaudeJob');
+
+const ClaudeJobStatusSchema = ClaudeJobSchema.extend({
+  transcript: z.array(TranscriptMessageSchema),
+  stderr: z.string(),
+}).openapi('ClaudeJobStatus');
+
+const ClaudeJobResultSchema = z
+  .object({
+    jobId: z.string(),
+    status: z.enum(['completed', 'failed', 'cancelled']),
+    exitCode: z.number().nullable(),
+    result: z.string().optional(),
+    diff: z.string(),
+    changedFiles: z.array(ChangedFileSchema),
+  })
+  .openapi('ClaudeJobResult');
+
+const startClaudeJobRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/claude/jobs',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: ClaudeTaskRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    202: {
+      content: {
+        'application/json': {
+          schema: ClaudeJobSchema,
+        },
+      },
+      description: 'Clone a repository and start Claude Code as a background job',
+    },
+  },
+});
+
+const getClaudeJobRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/claude/jobs/{jobId}',
+  request: {
+    params: ClaudeJobParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ClaudeJobStatusSchema,
+        },
+      },
+      description: 'Get the status and partial output of a Claude job',
+    },
+    404: errorResponse('Job not found'),
+  },
+});
+
+const cancelClaudeJobRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/claude/jobs/{jobId}/cancel',
+  request: {
+    params: ClaudeJobParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ClaudeJobSchema,
+        },
+      },
+      description: 'Cancel a running Claude job',
+    },
+    404: errorResponse('Job not found'),
+    409: errorResponse('Job has already finished'),
+  },
+});
+
+const claudeJobResultRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/claude/jobs/{jobId}/result',
+  request: {
+    params: ClaudeJobParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ClaudeJobResultSchema,
+        },
+      },
+      description: 'Get the final diff of a finished Claude job',
+    },
+    404: errorResponse('Job not found'),
+    409: errorResponse('Job is still running'),
+  },
+});
+
+const SYSTEM_PROMPT =
+  'You are running unattended inside a sandbox. Make the requested changes directly to the files in the current repository and do not ask follow-up questions.';
+
+/**
+ * The container ignores the timeout option of exec and startProcess, so the
+ * limit is enforced with coreutils `timeout`, which exits with 124.
+ */
+function buildClaudeCommand(task: string, timeout?: number) {
+  return [
+    ...(timeout ? ['timeout', String(Math.ceil(timeout / 1000))] : []),
+    'claude',
+    '-p',
+    shellQuote(task),
+    '--append-system-prompt',
+    shellQuote(SYSTEM_PROMPT),
+    '--permission-mode',
+    'acceptEdits',
+    '--output-format',
+    'stream-json',
+    '--verbose',
+  ].join(' ');
+}
+
+/**
+ * Export the API key only inside the subshell running Claude, so it never
+ * ends up in the environment of the session's other commands. The key is
+ * read from a file the command removes before starting Claude, which keeps
+ * it out of the command line that process listings return.
+ */
+async function withApiKey(
+  executor: Pick<ExecutionSession, 'writeFile'>,
+  env: Env,
+  command: string
+) {
+  const file = `/tmp/tribble-${crypto.randomUUID()}.key`;
+  await executor.writeFile(file, env.ANTHROPIC_API_KEY);
+  return (
+    `export ANTHROPIC_API_KEY="$(cat ${file})" && rm -f ${file} && ` +
+    command
+  );
+}
+
+type TranscriptMessage = z.infer<typeof TranscriptMessageSchema>;
+
+function isTranscriptMessage(value: unknown): value is TranscriptMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === 'string'
+  );
+}
+
+/**
+ * Claude Code emits one JSON message per line in `stream-json` mode.
+ * Lines that are not JSON messages (progress noise, warnings) are skipped.
+ */
+function parseTranscript(stdout: string) {
+  const messages: TranscriptMessage[] = [];
+  for (const line of stdout.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) {
+      continue;
+    }
+    try {
+      const message: unknown = JSON.parse(trimmed);
+      if (isTranscriptMessage(message)) {
+        messages.push(message);
+      }
+    } catch {
+      // Ignore partial or malformed lines
+    }
+  }
+  return messages;
+}
+
+/**
+ * Collect the diff and changed files Claude left in the working tree.
+ */
+async function collectChanges(
+  executor: Pick<ExecutionSession, 'exec'>,
+  cwd: string
+) {
+  const git = `git -C ${shellQuote(cwd)}`;
+  // Mark untracked files as intent-to-add so they show up in the diff
+  await executor.exec(`${git} add --intent-to-add --all`);
+  const diff = await executor.exec(`${git} diff`);
+  const status = await executor.exec(`${git} status --porcelain`);
+  return {
+    diff: diff.stdout,
+    changedFiles: parseChangedFiles(status.stdout),
+  };
+}
+
+function finalResult(transcript: TranscriptMessage[]) {
+  const final = transcript.findLast((message) => message.type === 'result');
+  return typeof final?.result === 'string' ? final.result : undefined;
+}
+
+/**
+ * The container forgets its processes and their logs when it restarts.
+ * A process it no longer knows about is reported as missing.
+ */
+async function ifPresent<T>(lookup: Promise<T>) {
+  try {
+    return await lookup;
+  } catch (error) {
+    if (toApiError(error).status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readOutput(
+  executor: Pick<ExecutionSession, 'getProcessLogs'>,
+  processId: string
+): Promise<ClaudeJobOutput> {
+  const logs = await ifPresent(executor.getProcessLogs(processId));
+  return { stdout: logs?.stdout ?? '', stderr: logs?.stderr ?? '' };
+}
+
+function jobExecutor(env: Env, job: ClaudeJob) {
+  const sandbox = getSandbox(env.Sandbox, job.identity);
+  return job.sessionId ? sandbox.getSession(job.sessionId) : sandbox;
+}
+
+/**
+ * Refresh a running job from its background process. Once the process has
+ * exited, its output and diff are collected and the job is persisted as
+ * finished, so finished jobs are served from the store alone.
+ */
+async function syncJob(
+  env: Env,
+  store: ReturnType<typeof getJobStore>,
+  job: ClaudeJob
+) {
+  if (job.status !== 'running') {
+    return job;
+  }
+  const executor = await jobExecutor(env, job);
+  const process = await ifPresent(executor.getProcess(job.processId));
+  if (process?.status === 'starting' || process?.status === 'running') {
+    return job;
+  }
+
+  const output = await readOutput(executor, job.processId);
+  const changes = await collectChanges(executor, job.targetDir);
+  const exitCode = process?.exitCode ?? null;
+  const status: ClaudeJobStatus =
+    process?.status === 'completed' && exitCode === 0 ? 'completed' : 'failed';
+  await store.putOutput(job.id, output);
+  const updated = await store.update(job.id, {
+    status,
+    finishedAt: new Date().toISOString(),
+    result: {
+      exitCode,
+      result: finalResult(parseTranscript(output.stdout)),
+      ...changes,
+    },
+  });
+  return updated ?? job;
+}
+
+function toJobResponse({ result: _, ...job }: ClaudeJob) {
+  return job;
+}
+
+app.openapi(runClaudeTaskRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { repoUrl, task, branch, targetDir, sessionId, timeout } =
+    c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+
+  const checkout = await checkoutRepository(executor, c.env, repoUrl, {
+    branch,
+    targetDir,
+  });
+  const cwd = checkout.targetDir;
+
+  const command = await withApiKey(
+    executor,
+    c.env,
+    buildClaudeCommand(task, timeout)
+  );
+  const run = await executor.exec(withShellOptions(command, { cwd }));
+  const transcript = parseTranscript(run.stdout);
+
+  const changes = await collectChanges(executor, cwd);
+
+  return c.json({
+    success: run.success,
+    exitCode: run.exitCode,
+    repoUrl: checkout.repoUrl,
+    branch: checkout.branch,
+    targetDir: cwd,
+    result: finalResult(transcript),
+    transcript,
+    stderr: run.stderr,
+    ...changes,
+    duration: run.duration,
+    timestamp: run.timestamp,
+  });
+});
+
+app.openapi(startClaudeJobRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { repoUrl, task, branch, targetDir, sessionId, timeout } =
+    c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+
+  const checkout = await checkoutRepository(executor, c.env, repoUrl, {
+    branch,
+    targetDir,
+  });
+  const id = crypto.randomUUID();
+  const command = await withApiKey(
+    executor,
+    c.env,
+    buildClaudeCommand(task, timeout)
+  );
+  const process = await executor.startProcess(
+    withShellOptions(command, { cwd: checkout.targetDir }),
+    {
+      processId: `claude-${id}`,
+      autoCleanup: false,
+    }
+  );
+
+  const now = new Date().toISOString();
+  const job = await getJobStore(c.env, identity).put({
+    id,
+    identity,
+    processId: process.id,
+    sessionId,
+    task,
+    repoUrl: checkout.repoUrl,
+    branch: checkout.branch,
+    targetDir: checkout.targetDir,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  });
+  return c.json(toJobResponse(job), 202);
+});
+
+app.openapi(getClaudeJobRoute, async (c) => {
+  const { identity, jobId } = c.req.valid('param');
+  const store = getJobStore(c.env, identity);
+  const stored = await store.get(jobId);
+  if (!stored) {
+    return c.json(errorBody('JOB_NOT_FOUND', 'Job not found'), 404);
+  }
+  const job = await syncJob(c.env, store, stored);
+  const output =
+    job.status === 'running'
+      ? await readOutput(await jobExecutor(c.env, job), job.processId)
+      : ((await store.getOutput(job.id)) ?? { stdout: '', stderr: '' });
+  return c.json(
+    {
+      ...toJobResponse(job),
+      transcript: parseTranscript(output.stdout),
+      stderr: output.stderr,
+    },
+    200
+  );
+});
+
+app.openapi(cancelClaudeJobRoute, async (c) => {
+  const { identity, jobId } = c.req.valid('param');
+  const store = getJobStore(c.env, identity);
+  const stored = await store.get(jobId);
+  if (!stored) {
+    return c.json(errorBody('JOB_NOT_FOUND', 'Job not found'), 404);
+  }
+  const job = await syncJob(c.env, store, stored);
+  if (job.status !== 'running') {
+    return c.json(
+      errorBody('JOB_FINISHED', `Job already ${job.status}`),
+      409
+    );
+  }
+
+  const executor = await jobExecutor(c.env, job);
+  await executor.killProcess(job.processId);
+  const output = await readOutput(executor, job.processId);
+  const changes = await collectChanges(executor, job.targetDir);
+  await store.putOutput(job.id, output);
+  const cancelled = await store.update(job.id, {
+    status: 'cancelled',
+    finishedAt: new Date().toISOString(),
+    result: { exitCode: null, ...changes },
+  });
+  return c.json(toJobResponse(cancelled ?? job), 200);
+});
+
+app.openapi(claudeJobResultRoute, async (c) => {
+  const { identity, jobId } = c.req.valid('param');
+  const store = getJobStore(c.env, identity);
+  const stored = await store.get(jobId);
+  if (!stored) {
+    return c.json(errorBody('JOB_NOT_FOUND', 'Job not found'), 404);
+  }
+  const job = await syncJob(c.env, store, stored);
+  if (job.status === 'running' || !job.result) {
+    return c.json(errorBody('JOB_RUNNING', 'Job is still running'), 409);
+  }
+  return c.json({ jobId: job.id, status: job.status, ...job.result }, 200);
+});
+
+export default app;
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readEvents, sseStream } from '../../test/sse';
+import { type Env } from '../types';
+import app from './command';
+
+const sandbox = {
+  execStream: vi.fn(async (_command: string) =>
+    sseStream(
+      { type: 'start', timestamp: 't0' },
+      { type: 'stdout', data: 'hello ', timestamp: 't1' },
+      { type: 'stderr', data: 'warning', timestamp: 't2' },
+      { type: 'stdout', data: 'world', timestamp: 't3' },
+      { type: 'complete', exitCode: 3, timestamp: 't4' }
+    )
+  ),
+};
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: () => sandbox,
+}));
+
+function exec(path: string, env: Record<string, string>, command = 'env') {
+  return app.request(
+    `/sandbox/sandbox-123/commands/${path}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ command, options: { env, cwd: '/workspace' } }),
+    },
+    { Sandbox: {} } as unknown as Env
+  );
+}
+
+describe('command routes', () => {
+  it.each(['exec', 'exec/stream'])(
+    'rejects invalid environment variable names on %s',
+    async (path) => {
+      const response = await exec(path, { 'A=B; rm -rf /': 'x' });
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body).toMatchObject({
+        ok: false,
+        error: { code: 'VALIDATION_FAILED' },
+      });
+    }
+  );
+});
+
+describe('command stream route', () => {
+  it('streams output and ends with the collected result', async () => {
+    const response = await exec('exec/stream', { GREETING: 'hi' }, 'make');
+    expect(response.headers.get('Content-Type')).toContain(
+      'text/event-stream'
+    );
+    const events = await readEvents(response);
+    expect(events.map(({ event }) => event)).toEqual([
+      'start',
+      'stdout',
+      'stderr',
+      'stdout',
+      'exit',
+    ]);
+    expect(events[4].data).toMatchObject({
+      exitCode: 3,
+      result: {
+        success: false,
+        exitCode: 3,
+        stdout: 'hello world',
+        stderr: 'warning',
+        command: 'make',
+      },
+    });
+    // cwd and env are applied in the command since the container drops them
+    expect(sandbox.execStream).toHaveBeenCalledWith(
+      "(cd '/workspace' && export GREETING='hi' && make)"
+    );
+  });
+});
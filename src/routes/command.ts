@@ -1,6 +1,13 @@
-import { getSandbox } from '@cloudflare/sandbox';
+import {
+  getSandbox,
+  parseSSEStream,
+  type ExecEvent,
+} from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
+import { streamSSE } from 'hono/streaming';
 import { createApp } from '../app';
+import { errorResponses } from '../errors';
+import { ENV_NAME, withShellOptions } from '../shell';
 
 const app = createApp();
 
@@ -33,7 +40,7 @@ const ExecRequestSchema = z
         timeout: z.number().int().positive().optional(),
         cwd: z.string().optional(),
         encoding: z.string().optional(),
-        env: z.record(z.string(), z.string()).optional(),
+        env: z.record(z.string().regex(ENV_NAME), z.string()).optional(),
       })
       .partial()
       .passthrough()
@@ -69,6 +76,7 @@ const execCommand = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -80,6 +88,44 @@ const execCommand = createRoute({
   },
 });
 
+const ExecStreamEventSchema = z
+  .object({
+    type: z.enum(['start', 'stdout', 'stderr', 'exit', 'error']),
+    timestamp: z.string(),
+    data: z.string().optional(),
+    exitCode: z.number().optional(),
+    error: z.string().optional(),
+    result: ExecResponseSchema.optional(),
+  })
+  .openapi('ExecStreamEvent');
+
+const execCommandStream = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/commands/exec/stream',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: ExecRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'text/event-stream': {
+          schema: ExecStreamEventSchema,
+        },
+      },
+      description:
+        'Execute a command and stream stdout, stderr, exit and error events',
+    },
+  },
+});
+
 app.openapi(execCommand, async (c) => {
   const { identity } = c.req.valid('param');
   const { command, options, sessionId } = c.req.valid('json');
@@ -89,4 +135,98 @@ app.openapi(execCommand, async (c) => {
   return c.json(result);
 });
 
+app.openapi(execCommandStream, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { command, options, sessionId } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const source = await executor.execStream(withShellOptions(command, options));
+
+  return streamSSE(c, async (stream) => {
+    const startTime = Date.now();
+    const timestamp = new Date(startTime).toISOString();
+    let stdout = '';
+    let stderr = '';
+
+    await stream.writeSSE({
+      event: 'start',
+      data: JSON.stringify({ type: 'start', timestamp }),
+    });
+
+    try {
+      for await (const event of parseSSEStream<ExecEvent>(source)) {
+        if (stream.aborted) {
+          break;
+        }
+        switch (event.type) {
+          case 'stdout':
+          case 'stderr': {
+            const data = event.data ?? '';
+            if (event.type === 'stdout') {
+              stdout += data;
+            } else {
+              stderr += data;
+            }
+            await stream.writeSSE({
+              event: event.type,
+              data: JSON.stringify({
+                type: event.type,
+                timestamp: event.timestamp,
+                data,
+              }),
+            });
+            break;
+          }
+          case 'complete': {
+            const exitCode = event.exitCode ?? event.result?.exitCode ?? 0;
+            const result = {
+              success: exitCode === 0,
+              exitCode,
+              stdout,
+              stderr,
+              command,
+              duration: Date.now() - startTime,
+              timestamp,
+              sessionId,
+            };
+            await stream.writeSSE({
+              event: 'exit',
+              data: JSON.stringify({
+                type: 'exit',
+                timestamp: event.timestamp,
+                exitCode,
+                result,
+              }),
+            });
+            break;
+          }
+          case 'error':
+            await stream.writeSSE({
+              event: 'error',
+              data: JSON.stringify({
+                type: 'error',
+                timestamp: event.timestamp,
+                error: event.error ?? event.data ?? 'Command failed',
+              }),
+            });
+            break;
+        }
+      }
+    } catch (error) {
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({
+          type: 'error',
+          timestamp: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      if (stream.aborted) {
+        await source.cancel().catch(() => {});
+      }
+    }
+  });
+});
+
 export default app;
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { sseStream } from '../../test/sse';
+import { type Env } from '../types';
+import app from './file';
+
+const sandbox = {
+  readFileStream: vi.fn(async (_path: string) =>
+    sseStream(
+      {
+        type: 'metadata',
+        mimeType: 'text/plain',
+        size: 10,
+        isBinary: false,
+        encoding: 'utf-8',
+      },
+      { type: 'chunk', data: '01234' },
+      { type: 'chunk', data: '56789' },
+      { type: 'complete', bytesRead: 10 }
+    )
+  ),
+};
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: () => sandbox,
+}));
+
+function download(range?: string) {
+  return app.request(
+    '/sandbox/sandbox-123/files/raw?path=/workspace/digits.txt',
+    { headers: range ? { Range: range } : {} },
+    { Sandbox: {} } as unknown as Env
+  );
+}
+
+describe('raw file download', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the whole file without a range', async () => {
+    const response = await download();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Length')).toBe('10');
+    expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+    expect(await response.text()).toBe('0123456789');
+  });
+
+  it('sends a range that spans chunks', async () => {
+    const response = await download('bytes=3-6');
+    expect(response.status).toBe(206);
+    expect(response.headers.get('Content-Range')).toBe('bytes 3-6/10');
+    expect(response.headers.get('Content-Length')).toBe('4');
+    expect(await response.text()).toBe('3456');
+  });
+
+  it('clamps an open or oversized end to the file', async () => {
+    const open = await download('bytes=7-');
+    expect(open.headers.get('Content-Range')).toBe('bytes 7-9/10');
+    expect(await open.text()).toBe('789');
+    const oversized = await download('bytes=8-99');
+    expect(await oversized.text()).toBe('89');
+  });
+
+  it('sends the last bytes for a suffix range', async () => {
+    const response = await download('bytes=-4');
+    expect(response.headers.get('Content-Range')).toBe('bytes 6-9/10');
+    expect(await response.text()).toBe('6789');
+  });
+
+  it('ignores ranges it does not understand', async () => {
+    for (const range of ['bytes=-', 'lines=1-2', 'bytes=0-1,4-5']) {
+      const response = await download(range);
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe('0123456789');
+    }
+  });
+
+  it('rejects ranges outside of the file', async () => {
+    for (const range of ['bytes=10-', 'bytes=5-2']) {
+      const response = await download(range);
+      expect(response.status).toBe(416);
+      expect(response.headers.get('Content-Range')).toBe('bytes */10');
+      expect(await response.json()).toMatchObject({
+        error: { code: 'RANGE_NOT_SATISFIABLE' },
+      });
+    }
+  });
+});
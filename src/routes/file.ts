@@ -1,6 +1,27 @@
-import { getSandbox } from '@cloudflare/sandbox';
+import { getSandbox, parseSSEStream, type LogEvent } from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
+import { streamSSE } from 'hono/streaming';
 import { createApp } from '../app';
+import {
+  ApiError,
+  errorBody,
+  errorResponse,
+  errorResponses,
+} from '../errors';
+import {
+  createArchive,
+  extractArchive,
+  openFileStream,
+  uploadBytes,
+  uploadStream,
+} from '../files';
+import { applyDiff, applyOperations } from '../patch';
+import { globFiles, pathFilter, searchFiles } from '../search';
+import {
+  createWatchBuffer,
+  watchCommand,
+  WATCHES_ESTABLISHED,
+} from '../watch';
 
 const app = createApp();
 
@@ -130,6 +151,114 @@ const ListFilesResultSchema = z
   .passthrough()
   .openapi('ListFilesResult');
 
+const GlobFilesRequestSchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Directory to search below',
+        example: '/workspace/repo',
+      }),
+    pattern: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Glob relative to path, `**` spans directories',
+        example: 'src/**/*.ts',
+      }),
+    exclude: z.array(z.string()).optional(),
+    gitignore: z
+      .boolean()
+      .default(true)
+      .openapi({
+        description: 'Skip files ignored by git inside a repository',
+      }),
+    includeHidden: z.boolean().optional(),
+    limit: z.number().int().min(1).max(10000).default(1000),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('GlobFilesRequest');
+
+const GlobFilesResultSchema = ListFilesResultSchema.extend({
+  truncated: z.boolean(),
+}).openapi('GlobFilesResult');
+
+const SearchFilesRequestSchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Directory to search below',
+        example: '/workspace/repo',
+      }),
+    query: z
+      .string()
+      .min(1)
+      .openapi({
+        example: 'TODO',
+      }),
+    regex: z
+      .boolean()
+      .default(false)
+      .openapi({
+        description: 'Treat query as a Perl compatible regular expression',
+      }),
+    caseSensitive: z.boolean().default(true),
+    contextLines: z.number().int().min(0).max(10).default(0),
+    include: z
+      .array(z.string())
+      .optional()
+      .openapi({
+        example: ['*.ts'],
+      }),
+    exclude: z
+      .array(z.string())
+      .optional()
+      .openapi({
+        example: ['dist'],
+      }),
+    gitignore: z
+      .boolean()
+      .default(true)
+      .openapi({
+        description: 'Skip files ignored by git inside a repository',
+      }),
+    includeHidden: z.boolean().optional(),
+    maxResults: z.number().int().min(1).max(5000).default(200),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('SearchFilesRequest');
+
+const ContextLineSchema = z.object({
+  line: z.number(),
+  text: z.string(),
+});
+
+const SearchFilesResultSchema = z
+  .object({
+    success: z.boolean(),
+    path: z.string(),
+    matches: z.array(
+      z
+        .object({
+          path: z.string(),
+          line: z.number(),
+          column: z.number(),
+          preview: z.string(),
+          before: z.array(ContextLineSchema),
+          after: z.array(ContextLineSchema),
+        })
+        .openapi('SearchMatch')
+    ),
+    count: z.number(),
+    filesSearched: z.number(),
+    truncated: z.boolean(),
+    timestamp: z.string(),
+  })
+  .openapi('SearchFilesResult');
+
 const FileExistsResultSchema = z
   .object({
     success: z.boolean(),
@@ -140,6 +269,202 @@ const FileExistsResultSchema = z
   .passthrough()
   .openapi('FileExistsResult');
 
+const ArchiveQuerySchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Directory to archive',
+        example: '/workspace/repo',
+      }),
+    include: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Comma separated globs of files to include',
+        example: 'src/*,package.json',
+      }),
+    exclude: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Comma separated globs of files to leave out',
+        example: 'node_modules/*,.git/*',
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('ArchiveQuery');
+
+const WatchQuerySchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Absolute directory to watch recursively',
+        example: '/workspace/repo',
+      }),
+    include: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Comma separated globs of files to report',
+        example: 'src/**,*.json',
+      }),
+    exclude: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Comma separated globs of files to ignore',
+        example: 'node_modules,dist',
+      }),
+    includeHidden: z.enum(['true', 'false']).optional(),
+    debounce: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .max(5000)
+      .default(100)
+      .openapi({
+        description: 'Milliseconds to collect and merge changes before sending',
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('WatchQuery');
+
+const WatchEventSchema = z
+  .object({
+    type: z.enum([
+      'ready',
+      'created',
+      'modified',
+      'deleted',
+      'renamed',
+      'error',
+    ]),
+    timestamp: z.string(),
+    path: z.string().optional(),
+    previousPath: z.string().optional(),
+    isDirectory: z.boolean().optional(),
+    error: z.string().optional(),
+  })
+  .openapi('WatchEvent');
+
+const ExtractQuerySchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .openapi({
+        description: 'Directory to unpack the archive into',
+        example: '/workspace/repo',
+      }),
+    stripComponents: z.coerce.number().int().min(0).default(0),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('ExtractQuery');
+
+const ExtractResultSchema = z
+  .object({
+    success: z.boolean(),
+    path: z.string(),
+    entries: z.array(z.string()),
+    count: z.number(),
+    timestamp: z.string(),
+  })
+  .openapi('ExtractResult');
+
+const RawFileQuerySchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .openapi({
+        example: '/workspace/dist/app.tar.gz',
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('RawFileQuery');
+
+const PatchOperationSchema = z
+  .discriminatedUnion('op', [
+    z.object({
+      op: z.literal('write'),
+      path: z.string().min(1),
+      content: z.string(),
+      encoding: z.enum(['utf-8', 'base64']).optional(),
+    }),
+    z.object({
+      op: z.literal('delete'),
+      path: z.string().min(1),
+      recursive: z.boolean().optional(),
+    }),
+    z.object({
+      op: z.literal('move'),
+      from: z.string().min(1),
+      to: z.string().min(1),
+    }),
+    z.object({
+      op: z.literal('mkdir'),
+      path: z.string().min(1),
+    }),
+  ])
+  .openapi('PatchOperation');
+
+const PatchRequestSchema = z
+  .object({
+    cwd: z
+      .string()
+      .default('/workspace')
+      .openapi({
+        description: 'Directory relative paths and diff paths resolve against',
+      }),
+    diff: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Unified diff as produced by git diff',
+      }),
+    strip: z
+      .number()
+      .int()
+      .min(0)
+      .default(1)
+      .openapi({
+        description: 'Leading path components to strip from diff paths',
+      }),
+    operations: z.array(PatchOperationSchema).min(1).optional(),
+    sessionId: z.string().min(3).optional(),
+  })
+  .refine((body) => (body.diff === undefined) !== !body.operations, {
+    message: 'Provide either diff or operations',
+  })
+  .openapi('PatchRequest');
+
+const PatchResultSchema = z
+  .object({
+    applied: z.boolean(),
+    results: z.array(
+      z.object({
+        path: z.string(),
+        op: z.enum(['write', 'delete', 'move', 'mkdir', 'patch']),
+        status: z.enum(['applied', 'failed', 'rolled_back', 'skipped']),
+        previousPath: z.string().optional(),
+        additions: z.number().optional(),
+        deletions: z.number().optional(),
+        error: z.string().optional(),
+      })
+    ),
+    conflicts: z.array(
+      z.object({
+        path: z.string().optional(),
+        reason: z.string(),
+      })
+    ),
+  })
+  .openapi('PatchResult');
+
 const writeFileRoute = createRoute({
   method: 'post',
   path: '/sandbox/{identity}/files/write',
@@ -154,6 +479,7 @@ const writeFileRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -179,6 +505,7 @@ const readFileRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -204,6 +531,7 @@ const deleteFileRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -229,6 +557,7 @@ const renameFileRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -254,6 +583,7 @@ const moveFileRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -279,6 +609,7 @@ const mkdirRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -304,6 +635,7 @@ const listFilesRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -329,6 +661,7 @@ const fileExistsRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -340,6 +673,252 @@ const fileExistsRoute = createRoute({
   },
 });
 
+const archiveRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/files/archive',
+  request: {
+    params: IdentityParamsSchema,
+    query: ArchiveQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/gzip': {
+          schema: z.string().openapi({ format: 'binary' }),
+        },
+      },
+      description: 'Download a directory as a tar.gz archive',
+    },
+  },
+});
+
+const extractRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/files/extract',
+  request: {
+    params: IdentityParamsSchema,
+    query: ExtractQuerySchema,
+    body: {
+      content: {
+        'application/gzip': {
+          schema: z.string().openapi({ format: 'binary' }),
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ExtractResultSchema,
+        },
+      },
+      description: 'Upload a tar.gz archive and unpack it inside the sandbox',
+    },
+  },
+});
+
+const uploadRawFileRoute = createRoute({
+  method: 'put',
+  path: '/sandbox/{identity}/files/raw',
+  request: {
+    params: IdentityParamsSchema,
+    query: RawFileQuerySchema,
+    body: {
+      content: {
+        'application/octet-stream': {
+          schema: z.string().openapi({ format: 'binary' }),
+        },
+      },
+      required: true,
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: FileOperationResultSchema,
+        },
+      },
+      description: 'Write the raw request body to a file inside the sandbox',
+    },
+  },
+});
+
+const downloadRawFileRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/files/raw',
+  request: {
+    params: IdentityParamsSchema,
+    query: RawFileQuerySchema,
+    headers: z.object({
+      range: z
+        .string()
+        .optional()
+        .openapi({
+          description: 'Single byte range, e.g. bytes=0-1023',
+          example: 'bytes=0-1023',
+        }),
+    }),
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/octet-stream': {
+          schema: z.string().openapi({ format: 'binary' }),
+        },
+      },
+      description: 'Stream a file from the sandbox',
+    },
+    206: {
+      content: {
+        'application/octet-stream': {
+          schema: z.string().openapi({ format: 'binary' }),
+        },
+      },
+      description: 'Stream the requested byte range of a file',
+    },
+    416: errorResponse('The requested range is not satisfiable'),
+  },
+});
+
+const watchRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/files/watch',
+  request: {
+    params: IdentityParamsSchema,
+    query: WatchQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'text/event-stream': {
+          schema: WatchEventSchema,
+        },
+      },
+      description:
+        'Stream file changes below a directory until the client disconnects',
+    },
+  },
+});
+
+const globFilesRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/files/glob',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: GlobFilesRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GlobFilesResultSchema,
+        },
+      },
+      description: 'List files matching a glob',
+    },
+  },
+});
+
+const searchFilesRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/files/search',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: SearchFilesRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SearchFilesResultSchema,
+        },
+      },
+      description: 'Search file contents for a literal or regular expression',
+    },
+  },
+});
+
+const patchRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/files/patch',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: PatchRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: PatchResultSchema,
+        },
+      },
+      description:
+        'Apply a unified diff or file operations all or nothing. Nothing is ' +
+        'changed when applied is false.',
+    },
+  },
+});
+
+/**
+ * Parse a single `bytes=` range against the file size. Returns undefined
+ * when the header is absent or not a single range, null when unsatisfiable.
+ */
+function parseRange(header: string | undefined, size: number) {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+  if (start > end || start >= size) {
+    return null;
+  }
+  return { start, end };
+}
+
+function splitGlobs(value?: string) {
+  return (value ?? '')
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+}
+
 app.openapi(writeFileRoute, async (c) => {
   const { identity } = c.req.valid('param');
   const { path, content, encoding, sessionId } = c.req.valid('json');
@@ -412,4 +991,243 @@ app.openapi(fileExistsRoute, async (c) => {
   return c.json(result);
 });
 
+app.openapi(uploadRawFileRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, sessionId } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const body = c.req.raw.body;
+  let size = 0;
+  if (body) {
+    size = await uploadStream(executor, path, body);
+  } else {
+    await uploadBytes(executor, path, new Uint8Array());
+  }
+  return c.json({
+    success: true,
+    path,
+    size,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+app.openapi(downloadRawFileRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, sessionId } = c.req.valid('query');
+  const { range: rangeHeader } = c.req.valid('header');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const source = await executor.readFileStream(path);
+
+  const { metadata, body } = await openFileStream(source, {
+    range: (metadata) => parseRange(rangeHeader, metadata.size) ?? undefined,
+  });
+  const range = parseRange(rangeHeader, metadata.size);
+  const headers = {
+    'Content-Type': metadata.mimeType || 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+  };
+
+  if (range === null) {
+    await body.cancel();
+    return c.json(
+      errorBody(
+        'RANGE_NOT_SATISFIABLE',
+        `Range ${rangeHeader} is outside of ${metadata.size} bytes`
+      ),
+      416,
+      { 'Content-Range': `bytes */${metadata.size}` }
+    );
+  }
+  if (range) {
+    return c.body(body, 206, {
+      ...headers,
+      'Content-Length': String(range.end - range.start + 1),
+      'Content-Range': `bytes ${range.start}-${range.end}/${metadata.size}`,
+    });
+  }
+  return c.body(body, 200, {
+    ...headers,
+    'Content-Length': String(metadata.size),
+  });
+});
+
+app.openapi(watchRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, include, exclude, includeHidden, debounce, sessionId } =
+    c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const processId = `watch-${crypto.randomUUID()}`;
+  await executor.startProcess(watchCommand(path), { processId });
+  let source: ReadableStream<Uint8Array>;
+  try {
+    source = await executor.streamProcessLogs(processId);
+  } catch (error) {
+    await executor.killProcess(processId).catch(() => {});
+    throw error;
+  }
+
+  return streamSSE(c, async (stream) => {
+    // The watcher only lives as long as the client is listening
+    stream.onAbort(async () => {
+      await executor.killProcess(processId).catch(() => {});
+      await source.cancel().catch(() => {});
+    });
+
+    const send = (event: string, data: Record<string, unknown>) =>
+      stream.writeSSE({
+        event,
+        data: JSON.stringify({
+          type: event,
+          timestamp: new Date().toISOString(),
+          ...data,
+        }),
+      });
+    const buffer = createWatchBuffer(
+      path,
+      debounce,
+      pathFilter({
+        include: splitGlobs(include),
+        exclude: splitGlobs(exclude),
+        includeHidden: includeHidden === 'true',
+      }),
+      async (events) => {
+        for (const { type, ...event } of events) {
+          await send(type, event);
+        }
+      }
+    );
+
+    let stderr = '';
+    let ready = false;
+    try {
+      for await (const event of parseSSEStream<LogEvent>(source)) {
+        if (stream.aborted) {
+          break;
+        }
+        if (event.type === 'stdout') {
+          buffer.write(event.data ?? '');
+        } else if (event.type === 'stderr') {
+          stderr += event.data ?? '';
+          // Changes made before this point could be missed
+          if (!ready && stderr.includes(WATCHES_ESTABLISHED)) {
+            ready = true;
+            stderr = '';
+            await send('ready', { path });
+          }
+        } else if (event.type === 'exit' || event.type === 'error') {
+          await buffer.close();
+          await send('error', {
+            error:
+              stderr.trim() ||
+              event.data ||
+              `Watcher exited with code ${event.exitCode ?? 'unknown'}`,
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      await send('error', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      await buffer.close().catch(() => {});
+      await executor.killProcess(processId).catch(() => {});
+    }
+  });
+});
+
+app.openapi(globFilesRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, pattern, limit, sessionId, ...filter } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const { files, truncated } = await globFiles(
+    executor,
+    path,
+    pattern,
+    filter,
+    limit
+  );
+  return c.json({
+    success: true,
+    path,
+    files,
+    count: files.length,
+    truncated,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+app.openapi(searchFilesRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, sessionId, ...options } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result = await searchFiles(executor, path, options);
+  return c.json({
+    success: true,
+    path,
+    ...result,
+    count: result.matches.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+app.openapi(patchRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { cwd, diff, strip, operations, sessionId } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result =
+    diff !== undefined
+      ? await applyDiff(executor, cwd, diff, strip)
+      : await applyOperations(executor, cwd, operations ?? []);
+  return c.json(result);
+});
+
+app.openapi(archiveRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, include, exclude, sessionId } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const archive = await createArchive(executor, path, {
+    include: splitGlobs(include),
+    exclude: splitGlobs(exclude),
+  });
+  const source = await executor.readFileStream(archive);
+  const { body } = await openFileStream(source, {
+    onDone: () => executor.deleteFile(archive),
+  });
+  const name = path.replace(/\/+$/, '').split('/').pop() || 'workspace';
+  return c.body(body, 200, {
+    'Content-Type': 'application/gzip',
+    'Content-Disposition': `attachment; filename="${name}.tar.gz"`,
+  });
+});
+
+app.openapi(extractRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, stripComponents, sessionId } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const body = c.req.raw.body;
+  if (!body) {
+    throw new ApiError(
+      422,
+      'VALIDATION_FAILED',
+      'The request body must be a tar.gz archive'
+    );
+  }
+  const entries = await extractArchive(executor, path, body, stripComponents);
+  return c.json({
+    success: true,
+    path,
+    entries,
+    count: entries.length,
+    timestamp: new Date().toISOString(),
+  });
+});
+
 export default app;
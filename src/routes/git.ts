@@ -1,6 +1,21 @@
 import { getSandbox } from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
 import { createApp } from '../app';
+import { errorResponse, errorResponses } from '../errors';
+import { redact, withGitCredentials } from '../credentials';
+import {
+  checkoutRepository,
+  gitCommit,
+  gitDiff,
+  gitFetch,
+  gitLog,
+  gitPush,
+  gitStatus,
+  listBranches,
+  openPullRequest,
+  remoteUrl,
+  switchBranch,
+} from '../git';
 
 const app = createApp();
 
@@ -17,10 +32,19 @@ const IdentityParamsSchema = z.object({
     }),
 });
 
+/**
+ * Refs and remotes are passed to git as arguments, so a leading `-` would
+ * turn them into options.
+ */
+const GitNameSchema = z
+  .string()
+  .min(1)
+  .regex(/^[^-]/, 'Must not start with "-"');
+
 const GitCheckoutRequestSchema = z
   .object({
     repoUrl: z.string().url(),
-    branch: z.string().optional(),
+    branch: GitNameSchema.optional(),
     targetDir: z.string().optional(),
     sessionId: z.string().min(3).optional(),
   })
@@ -37,6 +61,230 @@ const GitCheckoutResultSchema = z
   .passthrough()
   .openapi('GitCheckoutResult');
 
+const GitTargetQuerySchema = z
+  .object({
+    targetDir: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Repository directory, defaults to the session cwd',
+        example: '/workspace/repo',
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('GitTargetQuery');
+
+const GitTargetSchema = z.object({
+  targetDir: z.string().optional(),
+  sessionId: z.string().min(3).optional(),
+});
+
+const ChangedFileSchema = z
+  .object({
+    path: z.string(),
+    status: z.string().openapi({ example: 'M' }),
+    previousPath: z.string().optional(),
+  })
+  .openapi('GitChangedFile');
+
+const DiffStatSchema = z
+  .object({
+    path: z.string(),
+    additions: z.number(),
+    deletions: z.number(),
+    binary: z.boolean(),
+  })
+  .openapi('GitDiffStat');
+
+const CommitInfoSchema = z
+  .object({
+    sha: z.string(),
+    author: z.object({
+      name: z.string(),
+      email: z.string(),
+    }),
+    date: z.string(),
+    subject: z.string(),
+  })
+  .openapi('GitCommitInfo');
+
+const GitStatusSchema = z
+  .object({
+    branch: z.string().nullable(),
+    upstream: z.string().nullable(),
+    ahead: z.number(),
+    behind: z.number(),
+    clean: z.boolean(),
+    files: z.array(ChangedFileSchema),
+  })
+  .openapi('GitStatus');
+
+const GitDiffQuerySchema = GitTargetQuerySchema.extend({
+  staged: z
+    .enum(['true', 'false'])
+    .optional()
+    .openapi({
+      description: 'Diff the index instead of the working tree',
+    }),
+  ref: GitNameSchema.optional().openapi({
+    description: 'Commit or range to diff against',
+    example: 'HEAD~1',
+  }),
+  paths: z
+    .string()
+    .optional()
+    .openapi({
+      description: 'Comma separated paths to limit the diff to',
+      example: 'src/index.ts,README.md',
+    }),
+}).openapi('GitDiffQuery');
+
+const GitDiffSchema = z
+  .object({
+    diff: z.string(),
+    files: z.array(DiffStatSchema),
+    additions: z.number(),
+    deletions: z.number(),
+  })
+  .openapi('GitDiff');
+
+const GitCommitRequestSchema = GitTargetSchema.extend({
+  message: z.string().min(1),
+  author: z
+    .object({
+      name: z.string().min(1),
+      email: z.string().email(),
+    })
+    .optional()
+    .openapi({
+      description: 'Author and committer, required unless git is configured',
+      example: { name: 'Tribble Bot', email: 'bot@example.com' },
+    }),
+  paths: z
+    .array(z.string())
+    .optional()
+    .openapi({
+      description: 'Paths to stage, defaults to every change',
+    }),
+}).openapi('GitCommitRequest');
+
+const GitCommitResultSchema = CommitInfoSchema.extend({
+  files: z.array(DiffStatSchema),
+}).openapi('GitCommitResult');
+
+const GitLogQuerySchema = GitTargetQuerySchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  ref: GitNameSchema.optional(),
+  path: z.string().optional(),
+}).openapi('GitLogQuery');
+
+const GitBranchListSchema = z
+  .object({
+    branches: z.array(
+      z.object({
+        name: z.string(),
+        sha: z.string(),
+        current: z.boolean(),
+        upstream: z.string().nullable(),
+      })
+    ),
+  })
+  .openapi('GitBranchList');
+
+const GitSwitchRequestSchema = GitTargetSchema.extend({
+  branch: GitNameSchema,
+  create: z.boolean().optional(),
+  startPoint: GitNameSchema.optional().openapi({
+    description: 'Commit to start a new branch from',
+  }),
+}).openapi('GitSwitchRequest');
+
+const GitSwitchResultSchema = z
+  .object({
+    branch: z.string(),
+    sha: z.string(),
+    created: z.boolean(),
+  })
+  .openapi('GitSwitchResult');
+
+const GitPushRequestSchema = GitTargetSchema.extend({
+  remote: GitNameSchema.default('origin'),
+  branch: GitNameSchema.optional().openapi({
+    description: 'Branch to push, defaults to the current one',
+  }),
+  setUpstream: z.boolean().optional(),
+  force: z
+    .boolean()
+    .optional()
+    .openapi({
+      description: 'Force push with lease',
+    }),
+}).openapi('GitPushRequest');
+
+const GitFetchRequestSchema = GitTargetSchema.extend({
+  remote: GitNameSchema.default('origin'),
+  ref: GitNameSchema.optional(),
+  prune: z.boolean().optional(),
+}).openapi('GitFetchRequest');
+
+const GitFetchResultSchema = z
+  .object({
+    remote: z.string(),
+    ref: z.string().nullable(),
+  })
+  .openapi('GitFetchResult');
+
+const PullRequestRequestSchema = GitTargetSchema.extend({
+  remote: GitNameSchema.default('origin'),
+  branch: GitNameSchema.optional().openapi({
+    description: 'Branch to push, defaults to a new tribble/<timestamp>',
+    example: 'tribble/fix-readme',
+  }),
+  base: GitNameSchema.optional().openapi({
+    description: 'Branch to merge into, defaults to the current branch',
+    example: 'main',
+  }),
+  title: z.string().min(1),
+  body: z.string().optional(),
+  draft: z.boolean().optional(),
+  commitMessage: z
+    .string()
+    .optional()
+    .openapi({
+      description: 'Message for committing the working tree, defaults to title',
+    }),
+  author: z
+    .object({
+      name: z.string().min(1),
+      email: z.string().email(),
+    })
+    .optional()
+    .openapi({
+      description:
+        'Identity of the commit, defaults to Tribble ' +
+        '<tribble@users.noreply.local>',
+    }),
+}).openapi('PullRequestRequest');
+
+const PullRequestResultSchema = z
+  .object({
+    number: z.number(),
+    url: z.string(),
+    forge: z.enum(['github', 'gitea']),
+    branch: z.string(),
+    base: z.string(),
+    commit: z.string().nullable(),
+  })
+  .openapi('PullRequestResult');
+
+const GitPushResultSchema = z
+  .object({
+    remote: z.string(),
+    branch: z.string(),
+    output: z.string(),
+  })
+  .openapi('GitPushResult');
+
 const gitCheckoutRoute = createRoute({
   method: 'post',
   path: '/sandbox/{identity}/git/checkout',
@@ -51,6 +299,7 @@ const gitCheckoutRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -62,13 +311,323 @@ const gitCheckoutRoute = createRoute({
   },
 });
 
+const gitStatusRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/git/status',
+  request: {
+    params: IdentityParamsSchema,
+    query: GitTargetQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitStatusSchema,
+        },
+      },
+      description: 'Get the branch and changed files of a repository',
+    },
+  },
+});
+
+const gitDiffRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/git/diff',
+  request: {
+    params: IdentityParamsSchema,
+    query: GitDiffQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitDiffSchema,
+        },
+      },
+      description: 'Get a unified diff with per file stats',
+    },
+  },
+});
+
+const gitCommitRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/git/commit',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: GitCommitRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitCommitResultSchema,
+        },
+      },
+      description: 'Stage changes and create a commit',
+    },
+  },
+});
+
+const gitLogRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/git/log',
+  request: {
+    params: IdentityParamsSchema,
+    query: GitLogQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ commits: z.array(CommitInfoSchema) }),
+        },
+      },
+      description: 'List commits, newest first',
+    },
+  },
+});
+
+const gitBranchesRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/git/branches',
+  request: {
+    params: IdentityParamsSchema,
+    query: GitTargetQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitBranchListSchema,
+        },
+      },
+      description: 'List local branches',
+    },
+  },
+});
+
+const gitSwitchRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/git/switch',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: GitSwitchRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitSwitchResultSchema,
+        },
+      },
+      description: 'Switch to a branch, optionally creating it',
+    },
+  },
+});
+
+const gitPushRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/git/push',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: GitPushRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitPushResultSchema,
+        },
+      },
+      description: 'Push a branch to a remote',
+    },
+  },
+});
+
+const pullRequestRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/git/pull-request',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: PullRequestRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: PullRequestResultSchema,
+        },
+      },
+      description: 'Commit, push and open a pull request on the forge',
+    },
+    502: errorResponse('The forge rejected the pull request'),
+  },
+});
+
+const gitFetchRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/git/fetch',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: GitFetchRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GitFetchResultSchema,
+        },
+      },
+      description: 'Fetch from a remote',
+    },
+  },
+});
+
 app.openapi(gitCheckoutRoute, async (c) => {
   const { identity } = c.req.valid('param');
   const { repoUrl, branch, targetDir, sessionId } = c.req.valid('json');
   const sandbox = getSandbox(c.env.Sandbox, identity);
   const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
-  const result = await executor.gitCheckout(repoUrl, { branch, targetDir });
+  const result = await checkoutRepository(executor, c.env, repoUrl, {
+    branch,
+    targetDir,
+  });
+  return c.json(result);
+});
+
+app.openapi(gitStatusRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  return c.json(await gitStatus(executor, targetDir));
+});
+
+app.openapi(gitDiffRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, staged, ref, paths } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result = await gitDiff(executor, targetDir, {
+    staged: staged === 'true',
+    ref,
+    paths: paths
+      ?.split(',')
+      .map((path) => path.trim())
+      .filter(Boolean),
+  });
+  return c.json(result);
+});
+
+app.openapi(gitCommitRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, message, author, paths } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result = await gitCommit(executor, targetDir, {
+    message,
+    author,
+    paths,
+  });
   return c.json(result);
 });
 
+app.openapi(gitLogRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, limit, ref, path } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const commits = await gitLog(executor, targetDir, { limit, ref, path });
+  return c.json({ commits });
+});
+
+app.openapi(gitBranchesRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const branches = await listBranches(executor, targetDir);
+  return c.json({ branches });
+});
+
+app.openapi(gitSwitchRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, ...options } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  return c.json(await switchBranch(executor, targetDir, options));
+});
+
+app.openapi(gitPushRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, ...options } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const url = await remoteUrl(executor, targetDir, options.remote);
+  const result = await withGitCredentials(executor, c.env, url, (config) =>
+    gitPush(executor, targetDir, { ...options, config })
+  );
+  return c.json({ ...result, output: redact(result.output, c.env) });
+});
+
+app.openapi(gitFetchRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, ...options } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const url = await remoteUrl(executor, targetDir, options.remote);
+  const result = await withGitCredentials(executor, c.env, url, (config) =>
+    gitFetch(executor, targetDir, { ...options, config })
+  );
+  return c.json(result);
+});
+
+app.openapi(pullRequestRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { targetDir, sessionId, ...options } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result = await openPullRequest(executor, c.env, targetDir, options);
+  return c.json(result, 200);
+});
+
 export default app;
@@ -1,6 +1,35 @@
-import { getSandbox, type RunCodeOptions } from '@cloudflare/sandbox';
+import {
+  getSandbox,
+  type CodeContext,
+  type ExecutionResult,
+  type RunCodeOptions,
+} from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
+import { streamSSE } from 'hono/streaming';
 import { createApp } from '../app';
+import {
+  ApiError,
+  errorBody,
+  errorResponse,
+  errorResponses,
+} from '../errors';
+import {
+  createContext,
+  deleteContext,
+  findContext,
+  interruptContext,
+  rememberContext,
+  restartContext,
+} from '../contexts';
+import { getInterpreterHistory } from '../history';
+import {
+  applyEvent,
+  interpreterEvents,
+  LANGUAGES,
+  normalizeExecution,
+  type InterpreterEvent,
+} from '../interpreter';
+import { buildNotebook, recordCell, runNotebook } from '../notebook';
 import type { Env } from '../types';
 
 const app = createApp();
@@ -60,8 +89,26 @@ const CodeContextListSchema = z
   })
   .openapi('CodeContextList');
 
+const InterruptContextResultSchema = z
+  .object({
+    contextId: z.string(),
+    pid: z.number(),
+    signal: z.literal('SIGINT'),
+    delivered: z
+      .boolean()
+      .openapi({ description: 'False when the process had already exited' }),
+  })
+  .openapi('InterruptContextResult');
+
+const RestartContextResultSchema = z
+  .object({
+    context: CodeContextSchema,
+    previousId: z.string(),
+  })
+  .openapi('RestartContextResult');
+
 const CreateCodeContextRequestSchema = SessionIdBodySchema.extend({
-  language: z.enum(['python', 'javascript', 'typescript']).optional(),
+  language: z.enum(LANGUAGES).optional(),
   cwd: z.string().optional(),
   envVars: z.record(z.string(), z.string()).optional(),
   timeout: z.number().int().positive().optional(),
@@ -69,6 +116,74 @@ const CreateCodeContextRequestSchema = SessionIdBodySchema.extend({
   .partial()
   .openapi('CreateCodeContextRequest');
 
+const ChartDataSchema = z
+  .object({
+    type: z.enum([
+      'line',
+      'bar',
+      'scatter',
+      'pie',
+      'histogram',
+      'heatmap',
+      'unknown',
+    ]),
+    title: z.string().optional(),
+    data: z.unknown(),
+    layout: z.unknown().optional(),
+    config: z.unknown().optional(),
+    library: z
+      .enum(['matplotlib', 'plotly', 'altair', 'seaborn', 'unknown'])
+      .optional(),
+    image: z
+      .string()
+      .optional()
+      .openapi({ description: 'Base64 encoded rendering of the chart' }),
+  })
+  .openapi('ChartData');
+
+const RichResultSchema = z
+  .object({
+    formats: z
+      .array(
+        z.enum([
+          'text',
+          'html',
+          'png',
+          'jpeg',
+          'svg',
+          'latex',
+          'markdown',
+          'javascript',
+          'json',
+          'chart',
+        ])
+      )
+      .openapi({
+        description: 'Representations present on this result',
+        example: ['text', 'png'],
+      }),
+    text: z.string().optional(),
+    html: z.string().optional(),
+    png: z.string().optional().openapi({ description: 'Base64 encoded PNG' }),
+    jpeg: z.string().optional().openapi({ description: 'Base64 encoded JPEG' }),
+    svg: z.string().optional(),
+    latex: z.string().optional(),
+    markdown: z.string().optional(),
+    javascript: z.string().optional(),
+    json: z.unknown().optional(),
+    chart: ChartDataSchema.optional(),
+  })
+  .openapi('RichResult');
+
+const ExecutionErrorSchema = z
+  .object({
+    name: z.string(),
+    message: z.string(),
+    traceback: z.array(z.string()),
+    lineNumber: z.number().optional(),
+  })
+  .openapi('ExecutionError');
+
 const ExecutionResultSchema = z
   .object({
     code: z.string(),
@@ -76,37 +191,156 @@ const ExecutionResultSchema = z
       stdout: z.array(z.string()),
       stderr: z.array(z.string()),
     }),
-    error: z
-      .object({
-        name: z.string(),
-        message: z.string(),
-        traceback: z.array(z.string()),
-        lineNumber: z.number().optional(),
-      })
-      .optional(),
+    error: ExecutionErrorSchema.optional(),
     executionCount: z.number().optional(),
-    results: z
-      .array(
-        z
-          .object({})
-          .catchall(z.any())
-      )
-      .optional(),
+    results: z.array(RichResultSchema),
   })
   .passthrough()
   .openapi('ExecutionResult');
 
+const InterpreterEventSchema = z
+  .discriminatedUnion('type', [
+    z.object({
+      type: z.enum(['stdout', 'stderr']),
+      text: z.string(),
+      timestamp: z.number(),
+    }),
+    z.object({
+      type: z.literal('result'),
+      result: RichResultSchema,
+      timestamp: z.number(),
+    }),
+    ExecutionErrorSchema.extend({
+      type: z.literal('error'),
+      timestamp: z.number(),
+    }),
+    z.object({
+      type: z.literal('complete'),
+      executionCount: z.number().optional(),
+      timestamp: z.number(),
+    }),
+  ])
+  .openapi('InterpreterEvent');
+
 const RunCodeRequestSchema = z
   .object({
     code: z.string().min(1),
     sessionId: z.string().min(3).optional(),
-    language: z.enum(['python', 'javascript', 'typescript']).optional(),
+    language: z.enum(LANGUAGES).optional(),
     contextId: z.string().optional(),
     envVars: z.record(z.string(), z.string()).optional(),
     timeout: z.number().int().positive().optional(),
   })
   .openapi('RunCodeRequest');
 
+const MimeBundleSchema = z
+  .record(z.string(), z.unknown())
+  .openapi({ example: { 'text/plain': ['42'] } });
+
+const NotebookOutputSchema = z
+  .discriminatedUnion('output_type', [
+    z.object({
+      output_type: z.literal('stream'),
+      name: z.enum(['stdout', 'stderr']),
+      text: z.union([z.string(), z.array(z.string())]),
+    }),
+    z.object({
+      output_type: z.literal('execute_result'),
+      execution_count: z.number().int().nullable(),
+      data: MimeBundleSchema,
+      metadata: z.record(z.string(), z.unknown()).default({}),
+    }),
+    z.object({
+      output_type: z.literal('display_data'),
+      data: MimeBundleSchema,
+      metadata: z.record(z.string(), z.unknown()).default({}),
+    }),
+    z.object({
+      output_type: z.literal('error'),
+      ename: z.string(),
+      evalue: z.string(),
+      traceback: z.array(z.string()),
+    }),
+  ])
+  .openapi('NotebookOutput');
+
+const NotebookCellSchema = z
+  .object({
+    cell_type: z.enum(['code', 'markdown', 'raw']),
+    id: z.string().optional(),
+    source: z.union([z.string(), z.array(z.string())]),
+    metadata: z
+      .record(z.string(), z.unknown())
+      .default({})
+      .openapi({
+        description:
+          'Set `tribble.timeout` to a cell timeout in milliseconds',
+        example: { tribble: { timeout: 120000 } },
+      }),
+    outputs: z.array(NotebookOutputSchema).optional(),
+    execution_count: z.number().int().nullable().optional(),
+  })
+  .passthrough()
+  .openapi('NotebookCell');
+
+const NotebookSchema = z
+  .object({
+    nbformat: z.number().int(),
+    nbformat_minor: z.number().int(),
+    metadata: z.record(z.string(), z.unknown()).default({}),
+    cells: z.array(NotebookCellSchema),
+  })
+  .passthrough()
+  .openapi('Notebook');
+
+const RunNotebookRequestSchema = z
+  .object({
+    notebook: NotebookSchema,
+    stopOnError: z
+      .boolean()
+      .default(true)
+      .openapi({
+        description:
+          'Stop at the first failing cell instead of running the rest',
+      }),
+    cellTimeout: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .openapi({
+        description:
+          'Timeout in milliseconds for cells without `tribble.timeout`. ' +
+          'Only Python contexts support cell timeouts.',
+        example: 60000,
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('RunNotebookRequest');
+
+const RunNotebookResultSchema = z
+  .object({
+    notebook: NotebookSchema,
+    executed: z.number(),
+    failed: z.number(),
+    skipped: z.number(),
+    stopped: z
+      .boolean()
+      .openapi({ description: 'True when a failure stopped the run early' }),
+  })
+  .openapi('RunNotebookResult');
+
+const ExportNotebookQuerySchema = z
+  .object({
+    stopOnError: z
+      .enum(['true', 'false'])
+      .optional()
+      .openapi({
+        description: 'End the notebook at the first failed cell',
+      }),
+  })
+  .openapi('ExportNotebookQuery');
+
 const createContextRoute = createRoute({
   method: 'post',
   path: '/sandbox/{identity}/interpreter/contexts',
@@ -122,6 +356,7 @@ const createContextRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -141,6 +376,7 @@ const listContextsRoute = createRoute({
     query: SessionIdQuerySchema,
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -167,12 +403,97 @@ const deleteContextRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     204: {
       description: 'Delete the specified code execution context',
     },
   },
 });
 
+const getContextRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/interpreter/contexts/{contextId}',
+  request: {
+    params: IdentityAndContextParamsSchema,
+    query: SessionIdQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: CodeContextSchema,
+        },
+      },
+      description: 'Get a code execution context',
+    },
+    404: errorResponse('Context not found'),
+  },
+});
+
+const interruptContextRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/interpreter/contexts/{contextId}/interrupt',
+  request: {
+    params: IdentityAndContextParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: SessionIdBodySchema.optional(),
+        },
+      },
+      required: false,
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: InterruptContextResultSchema,
+        },
+      },
+      description:
+        'Interrupt the cell running in a Python context. The cell fails ' +
+        'with KeyboardInterrupt and the context keeps its state.',
+    },
+    404: errorResponse('Context not found'),
+    409: errorResponse(
+      'The context is not a Python context or its process is not known'
+    ),
+  },
+});
+
+const restartContextRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/interpreter/contexts/{contextId}/restart',
+  request: {
+    params: IdentityAndContextParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: SessionIdBodySchema.optional(),
+        },
+      },
+      required: false,
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: RestartContextResultSchema,
+        },
+      },
+      description:
+        'Replace a context with a fresh one in the same language and ' +
+        'working directory. The new context has a new id.',
+    },
+    404: errorResponse('Context not found'),
+  },
+});
+
 const runCodeRoute = createRoute({
   method: 'post',
   path: '/sandbox/{identity}/interpreter/run',
@@ -187,6 +508,7 @@ const runCodeRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -195,12 +517,91 @@ const runCodeRoute = createRoute({
       },
       description: 'Execute code using the sandbox interpreter',
     },
-    404: {
-      description: 'Context not found',
+    404: errorResponse('Context not found'),
+  },
+});
+
+const runCodeStreamRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/interpreter/run/stream',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: RunCodeRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'text/event-stream': {
+          schema: InterpreterEventSchema,
+        },
+      },
+      description:
+        'Execute code and stream stdout, stderr, rich results and errors as ' +
+        'they are produced, ending with a complete event',
+    },
+    404: errorResponse('Context not found'),
+  },
+});
+
+const runNotebookRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/interpreter/contexts/{contextId}/notebook/run',
+  request: {
+    params: IdentityAndContextParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: RunNotebookRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: RunNotebookResultSchema,
+        },
+      },
+      description:
+        'Run the code cells of an nbformat 4 notebook in order and return ' +
+        'it with outputs filled in',
+    },
+    404: errorResponse('Context not found'),
+  },
+});
+
+const exportNotebookRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/interpreter/contexts/{contextId}/notebook',
+  request: {
+    params: IdentityAndContextParamsSchema,
+    query: ExportNotebookQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/x-ipynb+json': {
+          schema: NotebookSchema,
+        },
+      },
+      description:
+        'Download the code run against a context as an nbformat 4 notebook',
     },
   },
 });
 
+type Executor = Awaited<ReturnType<typeof getExecutor>>;
+
 async function getExecutor(env: Env, identity: string, sessionId?: string) {
   const sandbox = getSandbox(env.Sandbox, identity);
   return sessionId ? await sandbox.getSession(sessionId) : sandbox;
@@ -211,7 +612,7 @@ app.openapi(createContextRoute, async (c) => {
   const body = c.req.valid('json') ?? {};
   const executor = await getExecutor(c.env, identity, body.sessionId);
   const { sessionId: _, ...options } = body;
-  const context = await executor.createCodeContext(options);
+  const context = await createContext(executor, identity, options);
   return c.json(context);
 });
 
@@ -220,6 +621,9 @@ app.openapi(listContextsRoute, async (c) => {
   const { sessionId } = c.req.valid('query');
   const executor = await getExecutor(c.env, identity, sessionId);
   const contexts = await executor.listCodeContexts();
+  for (const context of contexts) {
+    rememberContext(identity, context);
+  }
   return c.json({ contexts });
 });
 
@@ -227,16 +631,87 @@ app.openapi(deleteContextRoute, async (c) => {
   const { identity, contextId } = c.req.valid('param');
   const body = c.req.valid('json');
   const executor = await getExecutor(c.env, identity, body?.sessionId);
-  await executor.deleteCodeContext(contextId);
+  await deleteContext(executor, identity, contextId);
+  c.executionCtx.waitUntil(
+    getInterpreterHistory(c.env, identity).clear(contextId)
+  );
   return c.body(null, 204);
 });
 
-app.openapi(runCodeRoute, async (c) => {
-  const { identity } = c.req.valid('param');
-  const { code, sessionId, language, contextId, envVars, timeout } =
-    c.req.valid('json');
+app.openapi(getContextRoute, async (c) => {
+  const { identity, contextId } = c.req.valid('param');
+  const { sessionId } = c.req.valid('query');
   const executor = await getExecutor(c.env, identity, sessionId);
+  const context = await findContext(executor, identity, contextId);
+  if (!context) {
+    return c.json(errorBody('CONTEXT_NOT_FOUND', 'Context not found'), 404);
+  }
+  return c.json(context, 200);
+});
 
+app.openapi(interruptContextRoute, async (c) => {
+  const { identity, contextId } = c.req.valid('param');
+  const body = c.req.valid('json');
+  const executor = await getExecutor(c.env, identity, body?.sessionId);
+  const context = await findContext(executor, identity, contextId);
+  if (!context) {
+    return c.json(errorBody('CONTEXT_NOT_FOUND', 'Context not found'), 404);
+  }
+  const interrupted = await interruptContext(executor, identity, context);
+  if (!interrupted) {
+    return c.json(
+      errorBody(
+        'INTERRUPT_UNAVAILABLE',
+        'The process running this context is not known, restart it instead'
+      ),
+      409
+    );
+  }
+  return c.json({ contextId, signal: 'SIGINT' as const, ...interrupted }, 200);
+});
+
+app.openapi(restartContextRoute, async (c) => {
+  const { identity, contextId } = c.req.valid('param');
+  const body = c.req.valid('json');
+  const executor = await getExecutor(c.env, identity, body?.sessionId);
+  const context = await findContext(executor, identity, contextId);
+  if (!context) {
+    return c.json(errorBody('CONTEXT_NOT_FOUND', 'Context not found'), 404);
+  }
+  const restarted = await restartContext(executor, identity, context);
+  // The history described the state that was just thrown away
+  c.executionCtx.waitUntil(
+    getInterpreterHistory(c.env, identity).clear(contextId)
+  );
+  return c.json({ context: restarted, previousId: contextId }, 200);
+});
+
+/**
+ * Record a run against a context so it can be exported as a notebook cell.
+ */
+function recordRun(
+  c: { env: Env; executionCtx: ExecutionContext },
+  identity: string,
+  context: CodeContext,
+  result: ExecutionResult,
+  timeout?: number
+) {
+  const cell = recordCell(result.code, context.language, result, timeout);
+  c.executionCtx.waitUntil(
+    getInterpreterHistory(c.env, identity).record(context.id, cell)
+  );
+}
+
+/**
+ * Build run options, resolving `contextId` to its context. Returns null when
+ * the context does not exist.
+ */
+async function runOptions(
+  executor: Executor,
+  identity: string,
+  request: z.infer<typeof RunCodeRequestSchema>
+) {
+  const { language, contextId, envVars, timeout } = request;
   const options: RunCodeOptions = {};
   if (language) {
     options.language = language;
@@ -249,16 +724,154 @@ app.openapi(runCodeRoute, async (c) => {
   }
 
   if (contextId) {
-    const contexts = await executor.listCodeContexts();
-    const context = contexts.find((ctx) => ctx.id === contextId);
+    const context = await findContext(executor, identity, contextId);
     if (!context) {
-      return c.json({ error: 'Context not found' }, 404);
+      return null;
     }
     options.context = context;
   }
+  return options;
+}
+
+app.openapi(runCodeRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const request = c.req.valid('json');
+  const executor = await getExecutor(c.env, identity, request.sessionId);
+  const options = await runOptions(executor, identity, request);
+  if (!options) {
+    return c.json(errorBody('CONTEXT_NOT_FOUND', 'Context not found'), 404);
+  }
+  const result = await executor.runCode(request.code, options);
+  if (options.context) {
+    recordRun(c, identity, options.context, result, options.timeout);
+  }
+  return c.json(normalizeExecution(result), 200);
+});
+
+/**
+ * Stop a cell that ran out of time. Only Python contexts can be
+ * interrupted; other cells keep running, and the message says so because
+ * they hold up the context until they finish.
+ */
+async function timeoutMessage(
+  executor: Executor,
+  identity: string,
+  options: RunCodeOptions
+) {
+  const exceeded = `Execution exceeded ${options.timeout}ms`;
+  const interrupted = options.context
+    ? await interruptContext(executor, identity, options.context).catch(
+        () => null
+      )
+    : null;
+  return interrupted?.delivered
+    ? `${exceeded}, the cell was interrupted`
+    : `${exceeded}, the cell could not be interrupted and may still be ` +
+        'running';
+}
+
+app.openapi(runCodeStreamRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const request = c.req.valid('json');
+  const executor = await getExecutor(c.env, identity, request.sessionId);
+  const options = await runOptions(executor, identity, request);
+  if (!options) {
+    return c.json(errorBody('CONTEXT_NOT_FOUND', 'Context not found'), 404);
+  }
+  const source = await executor.runCodeStream(request.code, options);
+  const execution: ExecutionResult = {
+    code: request.code,
+    logs: { stdout: [], stderr: [] },
+    results: [],
+  };
+  const controller = new AbortController();
+  const timer = options.timeout
+    ? setTimeout(() => controller.abort(), options.timeout)
+    : undefined;
+
+  return streamSSE(c, async (stream) => {
+    stream.onAbort(() => controller.abort());
+    const send = (event: InterpreterEvent) => {
+      applyEvent(execution, event);
+      const data = JSON.stringify(event);
+      return stream.writeSSE({ event: event.type, data });
+    };
+    try {
+      for await (const event of interpreterEvents(source, controller.signal)) {
+        await send(event);
+      }
+    } catch (error) {
+      if (stream.aborted) {
+        return;
+      }
+      const timedOut = controller.signal.aborted;
+      const message = error instanceof Error ? error.message : String(error);
+      await send({
+        type: 'error',
+        name: timedOut ? 'TimeoutError' : 'StreamError',
+        message: timedOut
+          ? await timeoutMessage(executor, identity, options)
+          : message,
+        traceback: [],
+        timestamp: Date.now(),
+      });
+    } finally {
+      clearTimeout(timer);
+      // Releases the container stream once the loop has ended
+      controller.abort();
+      if (options.context) {
+        recordRun(c, identity, options.context, execution, options.timeout);
+      }
+    }
+  });
+});
 
-  const result = await executor.runCode(code, options);
-  return c.json(result);
+app.openapi(runNotebookRoute, async (c) => {
+  const { identity, contextId } = c.req.valid('param');
+  const { notebook, stopOnError, cellTimeout, sessionId } =
+    c.req.valid('json');
+  if (notebook.nbformat < 4) {
+    throw new ApiError(
+      422,
+      'UNSUPPORTED_NOTEBOOK',
+      `nbformat ${notebook.nbformat} is not supported, convert it to 4`
+    );
+  }
+  const executor = await getExecutor(c.env, identity, sessionId);
+  const context = await findContext(executor, identity, contextId);
+  if (!context) {
+    return c.json(errorBody('CONTEXT_NOT_FOUND', 'Context not found'), 404);
+  }
+  const run = await runNotebook(executor, context, notebook, {
+    stopOnError,
+    cellTimeout,
+    interrupt: async () => {
+      const interrupted = await interruptContext(executor, identity, context);
+      return interrupted?.delivered ?? false;
+    },
+  });
+  const history = getInterpreterHistory(c.env, identity);
+  c.executionCtx.waitUntil(
+    (async () => {
+      for (const cell of run.executed) {
+        await history.record(contextId, cell);
+      }
+    })()
+  );
+  return c.json({ notebook: run.notebook, ...run.summary }, 200);
+});
+
+app.openapi(exportNotebookRoute, async (c) => {
+  const { identity, contextId } = c.req.valid('param');
+  const { stopOnError } = c.req.valid('query');
+  const cells = await getInterpreterHistory(c.env, identity).list(contextId);
+  const notebook = buildNotebook(cells, {
+    stopOnError: stopOnError === 'true',
+  });
+  return c.json(notebook, 200, {
+    'Content-Type': 'application/x-ipynb+json',
+    'Content-Disposition': `attachment; filename="${contextId}.ipynb"`,
+  });
 });
 
 export default app;
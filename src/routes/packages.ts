@@ -0,0 +1,174 @@
+import { getSandbox } from '@cloudflare/sandbox';
+import { createRoute, z } from '@hono/zod-openapi';
+import { createApp } from '../app';
+import { errorResponses } from '../errors';
+import { LANGUAGES } from '../interpreter';
+import { installPackages, listPackages } from '../packages';
+
+const app = createApp();
+
+const IdentityParamsSchema = z.object({
+  identity: z
+    .string()
+    .min(3)
+    .openapi({
+      param: {
+        name: 'identity',
+        in: 'path',
+      },
+      example: 'sandbox-123',
+    }),
+});
+
+const DirectorySchema = z
+  .string()
+  .min(1)
+  .optional()
+  .openapi({
+    description:
+      'Directory JavaScript and TypeScript packages are installed into; ' +
+      'defaults to /workspace. Ignored for Python.',
+    example: '/workspace',
+  });
+
+const InstallPackagesRequestSchema = z
+  .object({
+    language: z.enum(LANGUAGES),
+    packages: z
+      .array(
+        z
+          .string()
+          .min(1)
+          .regex(/^[^-]/, 'Package specs cannot start with "-"')
+      )
+      .min(1)
+      .max(50)
+      .openapi({ example: ['pandas==2.2.3', 'matplotlib'] }),
+    indexUrl: z
+      .string()
+      .url()
+      .optional()
+      .openapi({
+        description:
+          'Package index (pip) or registry (npm) to install from; defaults ' +
+          'to the mirror configured in PACKAGE_MIRRORS',
+        example: 'https://pypi.org/simple',
+      }),
+    directory: DirectorySchema,
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('InstallPackagesRequest');
+
+const PackageStatusSchema = z
+  .object({
+    spec: z.string(),
+    name: z.string(),
+    status: z.enum(['installed', 'failed']),
+    version: z.string().optional(),
+    error: z.string().optional(),
+  })
+  .openapi('PackageStatus');
+
+const InstallPackagesResultSchema = z
+  .object({
+    success: z.boolean(),
+    language: z.enum(LANGUAGES),
+    manager: z.enum(['pip', 'npm']),
+    indexUrl: z.string().optional(),
+    directory: z.string().optional(),
+    packages: z.array(PackageStatusSchema),
+  })
+  .openapi('InstallPackagesResult');
+
+const ListPackagesQuerySchema = z
+  .object({
+    language: z.enum(LANGUAGES).default('python'),
+    directory: DirectorySchema,
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('ListPackagesQuery');
+
+const InstalledPackagesSchema = z
+  .object({
+    language: z.enum(LANGUAGES),
+    packages: z.array(
+      z.object({
+        name: z.string(),
+        version: z.string(),
+      })
+    ),
+  })
+  .openapi('InstalledPackages');
+
+const installPackagesRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/packages',
+  description:
+    'Install packages for interpreter contexts with pip or npm. A failing ' +
+    'spec does not stop the others from being installed.',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: InstallPackagesRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: InstallPackagesResultSchema,
+        },
+      },
+      description: 'Installation status of each package',
+    },
+  },
+});
+
+const listPackagesRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/packages',
+  request: {
+    params: IdentityParamsSchema,
+    query: ListPackagesQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: InstalledPackagesSchema,
+        },
+      },
+      description: 'Packages installed for the language',
+    },
+  },
+});
+
+app.openapi(installPackagesRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { language, packages, indexUrl, directory, sessionId } =
+    c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result = await installPackages(executor, c.env, language, packages, {
+    indexUrl,
+    directory,
+  });
+  return c.json(result);
+});
+
+app.openapi(listPackagesRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { language, directory, sessionId } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const packages = await listPackages(executor, language, { directory });
+  return c.json({ language, packages });
+});
+
+export default app;
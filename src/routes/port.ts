@@ -1,6 +1,7 @@
 import { getSandbox } from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
 import { createApp } from '../app';
+import { errorResponses } from '../errors';
 
 const app = createApp();
 
@@ -89,6 +90,7 @@ const exposePortRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -107,6 +109,7 @@ const unexposePortRoute = createRoute({
     params: PortParamSchema,
   },
   responses: {
+    ...errorResponses,
     204: {
       description: 'Unexpose the specified port',
     },
@@ -121,6 +124,7 @@ const listPortsRoute = createRoute({
     query: HostnameQuerySchema,
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -139,6 +143,7 @@ const portStatusRoute = createRoute({
     params: PortParamSchema,
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -168,6 +173,7 @@ const validateTokenRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { readEvents, sseStream } from '../../test/sse';
+import { type Env } from '../types';
+import app from './process';
+
+const sandbox = {
+  streamProcessLogs: vi.fn(async (_processId: string) =>
+    sseStream(
+      { type: 'stdout', data: 'hello ', timestamp: 't1' },
+      { type: 'stderr', data: 'oops', timestamp: 't2' },
+      { type: 'stdout', data: 'world', timestamp: 't3' },
+      { type: 'exit', exitCode: 0, timestamp: 't4' }
+    )
+  ),
+};
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: () => sandbox,
+}));
+
+async function tail(query = '', headers: Record<string, string> = {}) {
+  const response = await app.request(
+    `/sandbox/sandbox-123/processes/web/logs/stream${query}`,
+    { headers },
+    { Sandbox: {} } as unknown as Env
+  );
+  return readEvents(response);
+}
+
+describe('process log stream route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('tags each chunk with a resume cursor', async () => {
+    const events = await tail();
+    expect(events.map(({ id, event }) => [id, event])).toEqual([
+      ['6:0', 'stdout'],
+      ['6:4', 'stderr'],
+      ['11:4', 'stdout'],
+      ['11:4', 'exit'],
+    ]);
+    expect(events[2].data).toMatchObject({ data: 'world', offset: 6 });
+    expect(sandbox.streamProcessLogs).toHaveBeenCalledWith('web');
+  });
+
+  it('skips output the client has already received', async () => {
+    const events = await tail('?since=8:4');
+    expect(events.map(({ event }) => event)).toEqual(['stdout', 'exit']);
+    expect(events[0]).toMatchObject({
+      id: '11:4',
+      data: { data: 'rld', offset: 8 },
+    });
+  });
+
+  it('resumes from the Last-Event-ID header', async () => {
+    const events = await tail('', { 'Last-Event-ID': '6:4' });
+    expect(events[0].data).toMatchObject({ data: 'world', offset: 6 });
+  });
+
+  it('filters to one stream while keeping both positions', async () => {
+    const events = await tail('?stream=stderr');
+    expect(events.map(({ id, event }) => [id, event])).toEqual([
+      ['6:4', 'stderr'],
+      ['11:4', 'exit'],
+    ]);
+  });
+});
@@ -1,6 +1,13 @@
-import { getSandbox } from '@cloudflare/sandbox';
+import {
+  getSandbox,
+  parseSSEStream,
+  type LogEvent,
+} from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
+import { streamSSE } from 'hono/streaming';
 import { createApp } from '../app';
+import { errorBody, errorResponse, errorResponses } from '../errors';
+import { interactiveCommand, writeStdin } from '../stdin';
 
 const app = createApp();
 
@@ -79,6 +86,13 @@ const StartProcessRequestSchema = z
         env: z.record(z.string(), z.string()).optional(),
         processId: z.string().optional(),
         autoCleanup: z.boolean().optional(),
+        interactive: z
+          .boolean()
+          .optional()
+          .openapi({
+            description:
+              'Keep stdin open so input can be sent with the stdin endpoint',
+          }),
       })
       .partial()
       .passthrough()
@@ -93,6 +107,29 @@ const KillProcessRequestSchema = z
   })
   .openapi('KillProcessRequest');
 
+const WriteStdinRequestSchema = z
+  .object({
+    data: z.string().openapi({ example: 'yes\n' }),
+    encoding: z.enum(['utf-8', 'base64']).optional(),
+    close: z
+      .boolean()
+      .optional()
+      .openapi({
+        description: 'Close stdin after writing so the process sees EOF',
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('WriteStdinRequest');
+
+const WriteStdinResultSchema = z
+  .object({
+    success: z.boolean(),
+    processId: z.string(),
+    bytes: z.number(),
+    closed: z.boolean(),
+  })
+  .openapi('WriteStdinResult');
+
 const SessionOnlyRequestSchema = z
   .object({
     sessionId: z.string().min(3).optional(),
@@ -113,6 +150,7 @@ const startProcessRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -132,6 +170,7 @@ const listProcessesRoute = createRoute({
     query: SessionIdQuerySchema,
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -151,6 +190,7 @@ const getProcessRoute = createRoute({
     query: SessionIdQuerySchema,
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -159,9 +199,7 @@ const getProcessRoute = createRoute({
       },
       description: 'Get details about a specific process',
     },
-    404: {
-      description: 'Process not found',
-    },
+    404: errorResponse('Process not found'),
   },
 });
 
@@ -180,12 +218,43 @@ const killProcessRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     204: {
       description: 'Kill the specified process',
     },
   },
 });
 
+const writeStdinRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/processes/{processId}/stdin',
+  request: {
+    params: IdentityAndProcessParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: WriteStdinRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: WriteStdinResultSchema,
+        },
+      },
+      description: 'Write to the stdin of a process started as interactive',
+    },
+    404: errorResponse('Process not found'),
+    409: errorResponse(
+      'The process is not interactive, has closed stdin or is not reading'
+    ),
+  },
+});
+
 const killAllProcessesRoute = createRoute({
   method: 'post',
   path: '/sandbox/{identity}/processes/kill',
@@ -201,6 +270,7 @@ const killAllProcessesRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -231,6 +301,7 @@ const cleanupProcessesRoute = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -254,6 +325,7 @@ const processLogsRoute = createRoute({
     query: SessionIdQuerySchema,
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -265,12 +337,73 @@ const processLogsRoute = createRoute({
   },
 });
 
+const ProcessLogStreamQuerySchema = SessionIdQuerySchema.extend({
+  stream: z
+    .enum(['stdout', 'stderr', 'both'])
+    .default('both')
+    .openapi({
+      description: 'Restrict the stream to stdout or stderr output',
+      example: 'stdout',
+    }),
+  since: z
+    .string()
+    .regex(/^\d+:\d+$/)
+    .optional()
+    .openapi({
+      description:
+        'Resume cursor taken from the id of the last received event (stdoutOffset:stderrOffset). Falls back to the Last-Event-ID header.',
+      example: '1024:0',
+    }),
+}).openapi('ProcessLogStreamQuery');
+
+const ProcessLogEventSchema = z
+  .object({
+    type: z.enum(['stdout', 'stderr', 'exit', 'error']),
+    timestamp: z.string(),
+    processId: z.string(),
+    data: z.string().optional(),
+    offset: z.number().optional(),
+    exitCode: z.number().nullable().optional(),
+    error: z.string().optional(),
+  })
+  .openapi('ProcessLogEvent');
+
+const processLogsStreamRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/processes/{processId}/logs/stream',
+  request: {
+    params: IdentityAndProcessParamsSchema,
+    query: ProcessLogStreamQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'text/event-stream': {
+          schema: ProcessLogEventSchema,
+        },
+      },
+      description: 'Stream existing and new output for a process until it exits',
+    },
+  },
+});
+
 app.openapi(startProcessRoute, async (c) => {
   const { identity } = c.req.valid('param');
   const { command, options, sessionId } = c.req.valid('json');
   const sandbox = getSandbox(c.env.Sandbox, identity);
   const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
-  const process = await executor.startProcess(command, options);
+  const { interactive, ...processOptions } = options ?? {};
+  if (!interactive) {
+    return c.json(await executor.startProcess(command, processOptions));
+  }
+  // The stdin pipe is named after the process, so the id is chosen here
+  const processId =
+    processOptions.processId ?? `process-${crypto.randomUUID()}`;
+  const process = await executor.startProcess(
+    interactiveCommand(processId, command),
+    { ...processOptions, processId }
+  );
   return c.json(process);
 });
 
@@ -290,9 +423,9 @@ app.openapi(getProcessRoute, async (c) => {
   const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
   const process = await executor.getProcess(processId);
   if (!process) {
-    return c.json({ error: 'Process not found' }, 404);
+    return c.json(errorBody('PROCESS_NOT_FOUND', 'Process not found'), 404);
   }
-  return c.json(process);
+  return c.json(process, 200);
 });
 
 app.openapi(killProcessRoute, async (c) => {
@@ -306,6 +439,22 @@ app.openapi(killProcessRoute, async (c) => {
   return c.body(null, 204);
 });
 
+app.openapi(writeStdinRoute, async (c) => {
+  const { identity, processId } = c.req.valid('param');
+  const { data, encoding, close, sessionId } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const process = await executor.getProcess(processId);
+  if (!process) {
+    return c.json(errorBody('PROCESS_NOT_FOUND', 'Process not found'), 404);
+  }
+  const result = await writeStdin(executor, processId, data, {
+    encoding,
+    close,
+  });
+  return c.json({ success: true, processId, ...result }, 200);
+});
+
 app.openapi(killAllProcessesRoute, async (c) => {
   const { identity } = c.req.valid('param');
   const body = c.req.valid('json');
@@ -337,4 +486,107 @@ app.openapi(processLogsRoute, async (c) => {
   return c.json(logs);
 });
 
+function parseCursor(cursor?: string) {
+  const [stdout, stderr] = (cursor ?? '0:0').split(':').map(Number);
+  return {
+    stdout: Number.isFinite(stdout) ? stdout : 0,
+    stderr: Number.isFinite(stderr) ? stderr : 0,
+  };
+}
+
+app.openapi(processLogsStreamRoute, async (c) => {
+  const { identity, processId } = c.req.valid('param');
+  const { sessionId, stream: filter, since } = c.req.valid('query');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const source = await executor.streamProcessLogs(processId);
+
+  // The container replays the output collected so far before following new
+  // output, so positions are tracked per stream to skip what the client has
+  // already seen.
+  const delivered = parseCursor(since ?? c.req.header('Last-Event-ID'));
+  const received = { stdout: 0, stderr: 0 };
+  const cursor = () => `${delivered.stdout}:${delivered.stderr}`;
+
+  return streamSSE(c, async (stream) => {
+    try {
+      for await (const event of parseSSEStream<LogEvent>(source)) {
+        if (stream.aborted) {
+          break;
+        }
+        switch (event.type) {
+          case 'stdout':
+          case 'stderr': {
+            const data = event.data ?? '';
+            const start = received[event.type];
+            received[event.type] += data.length;
+            if (received[event.type] <= delivered[event.type]) {
+              break;
+            }
+            const unseen = data.slice(
+              Math.max(0, delivered[event.type] - start)
+            );
+            const offset = received[event.type] - unseen.length;
+            delivered[event.type] = received[event.type];
+            if (filter !== 'both' && filter !== event.type) {
+              break;
+            }
+            await stream.writeSSE({
+              id: cursor(),
+              event: event.type,
+              data: JSON.stringify({
+                type: event.type,
+                timestamp: event.timestamp,
+                processId,
+                data: unseen,
+                offset,
+              }),
+            });
+            break;
+          }
+          case 'exit':
+            await stream.writeSSE({
+              id: cursor(),
+              event: 'exit',
+              data: JSON.stringify({
+                type: 'exit',
+                timestamp: event.timestamp,
+                processId,
+                exitCode: event.exitCode ?? null,
+              }),
+            });
+            break;
+          case 'error':
+            await stream.writeSSE({
+              id: cursor(),
+              event: 'error',
+              data: JSON.stringify({
+                type: 'error',
+                timestamp: event.timestamp,
+                processId,
+                error: event.data,
+              }),
+            });
+            break;
+        }
+      }
+    } catch (error) {
+      await stream.writeSSE({
+        id: cursor(),
+        event: 'error',
+        data: JSON.stringify({
+          type: 'error',
+          timestamp: new Date().toISOString(),
+          processId,
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      if (stream.aborted) {
+        await source.cancel().catch(() => {});
+      }
+    }
+  });
+});
+
 export default app;
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type SandboxRecord } from '../registry';
+import { type Env } from '../types';
+import app from './sandbox';
+
+const sandbox = { destroy: vi.fn(async () => {}) };
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: () => sandbox,
+}));
+
+const registry = {
+  get: vi.fn(async (): Promise<SandboxRecord | null> => null),
+  register: vi.fn(async () => {}),
+};
+
+const env = {
+  Registry: { idFromName: () => 'global', get: () => registry },
+  Snapshots: { get: async () => null },
+} as unknown as Env;
+
+function createSandbox() {
+  return app.request(
+    '/sandbox',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        identity: 'sandbox-123',
+        fromSnapshot: { id: 'missing' },
+      }),
+    },
+    env
+  );
+}
+
+describe('create sandbox route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('destroys a new sandbox whose restore fails', async () => {
+    const response = await createSandbox();
+    expect(response.status).toBe(404);
+    expect(sandbox.destroy).toHaveBeenCalledTimes(1);
+    expect(registry.register).not.toHaveBeenCalled();
+  });
+
+  it('leaves a sandbox that was already active running', async () => {
+    registry.get.mockResolvedValueOnce({
+      identity: 'sandbox-123',
+      status: 'active',
+    } as SandboxRecord);
+    const response = await createSandbox();
+    expect(response.status).toBe(404);
+    expect(sandbox.destroy).not.toHaveBeenCalled();
+    expect(registry.register).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,12 @@
 import { getSandbox, SandboxOptions } from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
 import { createApp } from '../app';
+import { canAccessIdentity, hasScope } from '../auth';
+import { ApiError, errorBody, errorResponse, errorResponses } from '../errors';
+import { recipeScopes, runRecipe } from '../recipes';
+import { getRegistry } from '../registry';
+import { restoreSnapshot } from '../snapshots';
+import { getTemplateStore } from '../templates';
 
 const app = createApp();
 
@@ -32,9 +38,84 @@ const SandboxCreationSchema = z
         description: 'Duration before the sandbox sleeps (e.g. 30s, 3m, 1h)',
         example: '5m',
       }),
+    labels: z
+      .record(z.string(), z.string())
+      .optional()
+      .openapi({
+        description: 'Free-form labels recorded in the sandbox registry',
+        example: { project: 'tribble' },
+      }),
+    owner: z
+      .string()
+      .optional()
+      .openapi({
+        description:
+          'Owner recorded in the registry, defaults to the token subject',
+        example: 'team-a',
+      }),
+    fromSnapshot: z
+      .object({
+        id: z.string().min(1),
+        identity: z
+          .string()
+          .min(3)
+          .optional()
+          .openapi({
+            description:
+              'Sandbox the snapshot was taken from, defaults to the new one',
+          }),
+        path: z
+          .string()
+          .min(1)
+          .optional()
+          .openapi({
+            description: 'Directory to extract into, defaults to its source',
+          }),
+      })
+      .optional()
+      .openapi({
+        description: 'Restore a workspace snapshot into the new sandbox',
+        example: { id: '0f8fad5b-d9cb-469f-a165-70867728950e' },
+      }),
+    template: z
+      .string()
+      .min(1)
+      .optional()
+      .openapi({
+        description:
+          'Template whose recipe is run once the sandbox is created, after ' +
+          'any snapshot is restored',
+        example: 'node-app',
+      }),
+    hostname: z
+      .string()
+      .min(1)
+      .optional()
+      .openapi({
+        description:
+          'Hostname for preview URLs of template ports, defaults to the ' +
+          'host of this request',
+        example: 'sandbox.dev.example.com',
+      }),
   })
   .openapi('SandboxCreation');
 
+const RecipeStepSchema = z
+  .object({
+    type: z.enum(['checkout', 'setup', 'service', 'port']),
+    name: z.string(),
+    status: z.enum(['succeeded', 'failed', 'skipped']),
+    durationMs: z.number().optional(),
+    exitCode: z.number().optional(),
+    stdout: z.string().optional(),
+    stderr: z.string().optional(),
+    processId: z.string().optional(),
+    url: z.string().optional(),
+    targetDir: z.string().optional(),
+    error: z.string().optional(),
+  })
+  .openapi('RecipeStep');
+
 const SandboxIdentitySchema = z
   .object({
     identity: z
@@ -43,9 +124,93 @@ const SandboxIdentitySchema = z
       .openapi({
         example: 'sandbox-123',
       }),
+    restored: z
+      .object({
+        snapshotId: z.string(),
+        path: z.string(),
+        entries: z.number(),
+      })
+      .optional(),
+    recipe: z
+      .object({
+        template: z.string(),
+        success: z.boolean(),
+        steps: z.array(RecipeStepSchema),
+      })
+      .optional(),
   })
   .openapi('SandboxIdentity');
 
+const SandboxRecordSchema = z
+  .object({
+    identity: z.string(),
+    status: z.enum(['active', 'destroyed']),
+    createdAt: z.string(),
+    lastActivityAt: z.string(),
+    destroyedAt: z.string().optional(),
+    ttl: z.string().nullable(),
+    keepAlive: z.boolean(),
+    labels: z.record(z.string(), z.string()),
+    owner: z.string().optional(),
+  })
+  .openapi('SandboxRecord');
+
+const SandboxDetailsSchema = SandboxRecordSchema.extend({
+  container: z
+    .object({
+      status: z.string(),
+      lastChange: z.number(),
+    })
+    .passthrough()
+    .nullable(),
+}).openapi('SandboxDetails');
+
+const SandboxListSchema = z
+  .object({
+    sandboxes: z.array(SandboxRecordSchema),
+    cursor: z.string().optional(),
+  })
+  .openapi('SandboxList');
+
+const ListSandboxesQuerySchema = z
+  .object({
+    status: z.enum(['active', 'destroyed']).optional(),
+    owner: z.string().optional(),
+    labels: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Comma separated key=value pairs that must all match',
+        example: 'project=tribble,env=dev',
+      }),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'Cursor returned by the previous page',
+      }),
+  })
+  .openapi('ListSandboxesQuery');
+
+const ReclaimAuditListSchema = z
+  .object({
+    reclaimed: z.array(
+      z
+        .object({
+          identity: z.string(),
+          reason: z.enum(['expired', 'idle']),
+          reclaimedAt: z.string(),
+          createdAt: z.string(),
+          lastActivityAt: z.string(),
+          killedProcesses: z.number(),
+          error: z.string().optional(),
+        })
+        .openapi('ReclaimAuditRecord')
+    ),
+  })
+  .openapi('ReclaimAuditList');
+
 const createSandbox = createRoute({
   method: 'post',
   path: '/sandbox',
@@ -60,14 +225,18 @@ const createSandbox = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
           schema: SandboxIdentitySchema,
         },
       },
-      description: 'Start the sandbox',
+      description:
+        'Start the sandbox. With a template, the result reports each step ' +
+        'of its recipe, which stops at the first failing step.',
     },
+    404: errorResponse('Template not found'),
   },
 });
 
@@ -78,27 +247,216 @@ const destroySandbox = createRoute({
     params: IdentityParamsSchema,
   },
   responses: {
+    ...errorResponses,
     204: {
       description: 'Destroy the sandbox',
     },
   },
 });
 
+const listSandboxes = createRoute({
+  method: 'get',
+  path: '/sandboxes',
+  request: {
+    query: ListSandboxesQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SandboxListSchema,
+        },
+      },
+      description: 'List sandboxes recorded in the registry',
+    },
+  },
+});
+
+const getSandboxDetails = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}',
+  request: {
+    params: IdentityParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SandboxDetailsSchema,
+        },
+      },
+      description: 'Get registry details and container state for a sandbox',
+    },
+    404: errorResponse('Sandbox not found in the registry'),
+  },
+});
+
+const listReclaimedSandboxes = createRoute({
+  method: 'get',
+  path: '/sandboxes/reclaimed',
+  request: {
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+    }),
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ReclaimAuditListSchema,
+        },
+      },
+      description: 'List audit records of sandboxes destroyed by the reaper',
+    },
+  },
+});
+
+function parseLabels(labels?: string) {
+  if (!labels) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    labels
+      .split(',')
+      .map((pair) => pair.split('='))
+      .filter(([key, value]) => key && value !== undefined)
+      .map(([key, ...value]) => [key.trim(), value.join('=').trim()])
+  );
+}
+
 app.openapi(createSandbox, async (c) => {
-  const { identity, ttl } = c.req.valid('json');
+  const { identity, ttl, labels, owner, fromSnapshot, template, hostname } =
+    c.req.valid('json');
+  const auth = c.get('auth');
+  const source = fromSnapshot?.identity ?? identity;
+  if (fromSnapshot && auth && !canAccessIdentity(auth, source)) {
+    throw new ApiError(
+      403,
+      'FORBIDDEN',
+      `Not allowed to access sandbox ${source}`,
+      undefined,
+      'AuthError'
+    );
+  }
+  // Resolve the template first so a typo does not leave a bare sandbox behind
+  const stored = template ? await getTemplateStore(c.env).get(template) : null;
+  if (template && !stored) {
+    throw new ApiError(
+      404,
+      'TEMPLATE_NOT_FOUND',
+      `Template ${template} not found`
+    );
+  }
+  // Restoring and running a recipe act on the new sandbox like the snapshot,
+  // command and process routes do, so they need the same scopes
+  const required = [
+    ...(fromSnapshot ? ['snapshots:write'] : []),
+    ...(stored ? recipeScopes(stored.template) : []),
+  ];
+  const missing =
+    auth && required.find((scope) => !hasScope(auth.scopes, scope));
+  if (missing) {
+    throw new ApiError(
+      403,
+      'FORBIDDEN',
+      `Missing scope ${missing}`,
+      undefined,
+      'AuthError'
+    );
+  }
   const options: SandboxOptions = {
     keepAlive: ttl === undefined,
     sleepAfter: ttl,
   };
-  getSandbox(c.env.Sandbox, identity, options);
-  return c.json({ identity });
+  const sandbox = getSandbox(c.env.Sandbox, identity, options);
+  const registry = getRegistry(c.env);
+  // Setup that fails leaves nothing behind, unless the sandbox already ran
+  const existing = await registry.get(identity);
+  let restored;
+  let recipe;
+  try {
+    if (fromSnapshot) {
+      const { snapshot, path, entries } = await restoreSnapshot(
+        c.env,
+        sandbox,
+        source,
+        fromSnapshot.id,
+        fromSnapshot.path
+      );
+      restored = { snapshotId: snapshot.id, path, entries: entries.length };
+    }
+    if (stored) {
+      const steps = await runRecipe(sandbox, c.env, stored.template, {
+        hostname: hostname ?? new URL(c.req.url).host,
+      });
+      recipe = { template: stored.name, ...steps };
+    }
+  } catch (error) {
+    if (existing?.status !== 'active') {
+      await sandbox.destroy().catch(() => {});
+    }
+    throw error;
+  }
+  await registry.register({
+    identity,
+    ttl,
+    labels,
+    owner: owner ?? auth?.subject,
+  });
+  return c.json({ identity, restored, recipe }, 200);
 });
 
 app.openapi(destroySandbox, async (c) => {
   const { identity } = c.req.valid('param');
   const sandbox = getSandbox(c.env.Sandbox, identity);
   await sandbox.destroy();
+  await getRegistry(c.env).markDestroyed(identity);
   return c.body(null, 204);
 });
 
+app.openapi(listSandboxes, async (c) => {
+  const { status, owner, labels, limit, cursor } = c.req.valid('query');
+  const auth = c.get('auth');
+  const identities = auth?.identities.includes('*')
+    ? undefined
+    : auth?.identities;
+  const result = await getRegistry(c.env).list({
+    status,
+    owner,
+    labels: parseLabels(labels),
+    identities,
+    limit,
+    cursor,
+  });
+  return c.json(result);
+});
+
+app.openapi(listReclaimedSandboxes, async (c) => {
+  const { limit } = c.req.valid('query');
+  const auth = c.get('auth');
+  const reclaimed = await getRegistry(c.env).listReclaims(limit);
+  return c.json({
+    reclaimed: auth
+      ? reclaimed.filter((entry) => canAccessIdentity(auth, entry.identity))
+      : reclaimed,
+  });
+});
+
+app.openapi(getSandboxDetails, async (c) => {
+  const { identity } = c.req.valid('param');
+  const record = await getRegistry(c.env).get(identity);
+  if (!record) {
+    return c.json(errorBody('SANDBOX_NOT_FOUND', 'Sandbox not found'), 404);
+  }
+  let container = null;
+  if (record.status === 'active') {
+    const sandbox = getSandbox(c.env.Sandbox, identity);
+    container = await sandbox.getState().catch(() => null);
+  }
+  return c.json({ ...record, container }, 200);
+});
+
 export default app;
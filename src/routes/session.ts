@@ -1,6 +1,7 @@
 import { getSandbox, SessionOptions } from '@cloudflare/sandbox';
 import { createRoute, z } from '@hono/zod-openapi';
 import { createApp } from '../app';
+import { errorResponses } from '../errors';
 
 const app = createApp();
 
@@ -80,6 +81,7 @@ const createSession = createRoute({
     },
   },
   responses: {
+    ...errorResponses,
     200: {
       content: {
         'application/json': {
@@ -98,6 +100,7 @@ const deleteSession = createRoute({
     params: IdentityAndIdParamsSchema,
   },
   responses: {
+    ...errorResponses,
     204: {
       description: 'Delete the specified session',
     },
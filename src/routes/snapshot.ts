@@ -0,0 +1,239 @@
+import { getSandbox } from '@cloudflare/sandbox';
+import { createRoute, z } from '@hono/zod-openapi';
+import { createApp } from '../app';
+import { canAccessIdentity } from '../auth';
+import { ApiError, errorResponse, errorResponses } from '../errors';
+import { getRegistry } from '../registry';
+import { createSnapshot, listSnapshots, restoreSnapshot } from '../snapshots';
+
+const app = createApp();
+
+const IdentityParamsSchema = z.object({
+  identity: z
+    .string()
+    .min(3)
+    .openapi({
+      param: {
+        name: 'identity',
+        in: 'path',
+      },
+      example: 'sandbox-123',
+    }),
+});
+
+const SnapshotParamsSchema = IdentityParamsSchema.extend({
+  snapshotId: z
+    .string()
+    .min(1)
+    .openapi({
+      param: {
+        name: 'snapshotId',
+        in: 'path',
+      },
+      example: '0f8fad5b-d9cb-469f-a165-70867728950e',
+    }),
+});
+
+const SnapshotSchema = z
+  .object({
+    id: z.string(),
+    identity: z.string(),
+    path: z.string(),
+    gitHead: z.string().nullable(),
+    size: z.number(),
+    createdAt: z.string(),
+    label: z.string().optional(),
+  })
+  .openapi('Snapshot');
+
+const CreateSnapshotRequestSchema = z
+  .object({
+    path: z
+      .string()
+      .min(1)
+      .default('/workspace')
+      .openapi({
+        description: 'Directory to snapshot',
+        example: '/workspace',
+      }),
+    include: z
+      .array(z.string())
+      .optional()
+      .openapi({
+        description: 'Glob patterns relative to path to include',
+        example: ['src/*'],
+      }),
+    exclude: z
+      .array(z.string())
+      .optional()
+      .openapi({
+        description: 'Glob patterns relative to path to leave out',
+        example: ['node_modules/*'],
+      }),
+    label: z.string().optional(),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('CreateSnapshotRequest');
+
+const RestoreSnapshotRequestSchema = z
+  .object({
+    targetIdentity: z
+      .string()
+      .min(3)
+      .optional()
+      .openapi({
+        description: 'Sandbox to restore into, defaults to the snapshot owner',
+        example: 'sandbox-456',
+      }),
+    path: z
+      .string()
+      .min(1)
+      .optional()
+      .openapi({
+        description: 'Directory to extract into, defaults to the snapshot path',
+      }),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('RestoreSnapshotRequest');
+
+const RestoreSnapshotResultSchema = z
+  .object({
+    success: z.boolean(),
+    identity: z.string(),
+    path: z.string(),
+    snapshot: SnapshotSchema,
+    entries: z.array(z.string()),
+    timestamp: z.string(),
+  })
+  .openapi('RestoreSnapshotResult');
+
+const createSnapshotRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/snapshots',
+  request: {
+    params: IdentityParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateSnapshotRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: SnapshotSchema,
+        },
+      },
+      description: 'Archive a sandbox directory into the snapshot bucket',
+    },
+  },
+});
+
+const listSnapshotsRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/snapshots',
+  request: {
+    params: IdentityParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ snapshots: z.array(SnapshotSchema) }),
+        },
+      },
+      description: 'List snapshots taken from a sandbox, newest first',
+    },
+  },
+});
+
+const restoreSnapshotRoute = createRoute({
+  method: 'post',
+  path: '/sandbox/{identity}/snapshots/{snapshotId}/restore',
+  request: {
+    params: SnapshotParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: RestoreSnapshotRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: RestoreSnapshotResultSchema,
+        },
+      },
+      description: 'Extract a snapshot into this or another sandbox',
+    },
+    404: errorResponse('Snapshot not found'),
+  },
+});
+
+app.openapi(createSnapshotRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { path, include, exclude, label, sessionId } = c.req.valid('json');
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const snapshot = await createSnapshot(c.env, executor, identity, {
+    path,
+    include,
+    exclude,
+    label,
+  });
+  return c.json(snapshot, 201);
+});
+
+app.openapi(listSnapshotsRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const snapshots = await listSnapshots(c.env, identity);
+  return c.json({ snapshots }, 200);
+});
+
+app.openapi(restoreSnapshotRoute, async (c) => {
+  const { identity, snapshotId } = c.req.valid('param');
+  const { targetIdentity, path, sessionId } = c.req.valid('json');
+  const target = targetIdentity ?? identity;
+  const auth = c.get('auth');
+  if (auth && !canAccessIdentity(auth, target)) {
+    throw new ApiError(
+      403,
+      'FORBIDDEN',
+      `Not allowed to access sandbox ${target}`,
+      undefined,
+      'AuthError'
+    );
+  }
+  const sandbox = getSandbox(c.env.Sandbox, target);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const result = await restoreSnapshot(
+    c.env,
+    executor,
+    identity,
+    snapshotId,
+    path
+  );
+  if (target !== identity) {
+    c.executionCtx.waitUntil(getRegistry(c.env).touch(target));
+  }
+  return c.json(
+    {
+      success: true,
+      identity: target,
+      ...result,
+      timestamp: new Date().toISOString(),
+    },
+    200
+  );
+});
+
+export default app;
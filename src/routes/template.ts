@@ -0,0 +1,246 @@
+import { createRoute, z } from '@hono/zod-openapi';
+import { createApp } from '../app';
+import { ApiError, errorBody, errorResponse, errorResponses } from '../errors';
+import {
+  getTemplateStore,
+  parseTemplateDocument,
+  type SandboxTemplate,
+} from '../templates';
+
+const app = createApp();
+
+const TemplateNameParamsSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/)
+    .openapi({
+      param: {
+        name: 'name',
+        in: 'path',
+      },
+      example: 'node-app',
+    }),
+});
+
+const EnvSchema = z.record(z.string(), z.string());
+
+const TemplateCommandSchema = z
+  .object({
+    command: z.string().min(1),
+    name: z.string().min(1).optional(),
+    cwd: z
+      .string()
+      .min(1)
+      .optional()
+      .openapi({
+        description: 'Defaults to the repository directory',
+      }),
+    env: EnvSchema.optional(),
+  })
+  .openapi('TemplateCommand');
+
+const TemplateSchema = z
+  .object({
+    description: z.string().optional(),
+    repo: z
+      .object({
+        url: z.string().url(),
+        branch: z.string().min(1).optional(),
+        targetDir: z.string().min(1).optional(),
+      })
+      .optional(),
+    env: EnvSchema.optional().openapi({
+      description: 'Environment for every setup command and service',
+    }),
+    setup: z
+      .array(z.union([z.string().min(1), TemplateCommandSchema]))
+      .optional()
+      .openapi({
+        description: 'Commands run in order after the checkout',
+        example: ['npm ci', { name: 'build', command: 'npm run build' }],
+      }),
+    services: z
+      .array(
+        TemplateCommandSchema.extend({
+          name: z.string().min(1),
+        })
+      )
+      .optional()
+      .openapi({
+        description: 'Background processes started after setup',
+        example: [{ name: 'dev', command: 'npm run dev -- --port 3000' }],
+      }),
+    ports: z
+      .array(
+        z.object({
+          port: z.number().int().min(1).max(65535),
+          name: z.string().min(1).optional(),
+        })
+      )
+      .optional()
+      .openapi({
+        description: 'Ports exposed once the services are running',
+        example: [{ port: 3000, name: 'web' }],
+      }),
+  })
+  .openapi('SandboxTemplate');
+
+const StoredTemplateSchema = z
+  .object({
+    name: z.string(),
+    description: z.string().optional(),
+    format: z.enum(['json', 'yaml']),
+    source: z.string(),
+    template: TemplateSchema,
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .openapi('StoredTemplate');
+
+const TemplateListSchema = z
+  .object({
+    templates: z.array(
+      StoredTemplateSchema.omit({ source: true, template: true })
+    ),
+  })
+  .openapi('TemplateList');
+
+const putTemplateRoute = createRoute({
+  method: 'put',
+  path: '/templates/{name}',
+  description:
+    'Create or replace a sandbox template. Send the template as JSON, or ' +
+    'as a YAML document with an `application/yaml` content type.',
+  request: {
+    params: TemplateNameParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: TemplateSchema,
+        },
+        'application/yaml': {
+          schema: z.string(),
+        },
+      },
+    },
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: StoredTemplateSchema,
+        },
+      },
+      description: 'The stored template',
+    },
+  },
+});
+
+const listTemplatesRoute = createRoute({
+  method: 'get',
+  path: '/templates',
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: TemplateListSchema,
+        },
+      },
+      description: 'List sandbox templates',
+    },
+  },
+});
+
+const getTemplateRoute = createRoute({
+  method: 'get',
+  path: '/templates/{name}',
+  request: {
+    params: TemplateNameParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: StoredTemplateSchema,
+        },
+      },
+      description: 'Get a sandbox template',
+    },
+    404: errorResponse('Template not found'),
+  },
+});
+
+const deleteTemplateRoute = createRoute({
+  method: 'delete',
+  path: '/templates/{name}',
+  request: {
+    params: TemplateNameParamsSchema,
+  },
+  responses: {
+    ...errorResponses,
+    204: {
+      description: 'Delete a sandbox template',
+    },
+    404: errorResponse('Template not found'),
+  },
+});
+
+app.openapi(putTemplateRoute, async (c) => {
+  const { name } = c.req.valid('param');
+  const yaml = c.req.header('content-type')?.includes('yaml') ?? false;
+  let template: SandboxTemplate;
+  let source: string;
+  if (yaml) {
+    source = await c.req.text();
+    const parsed = TemplateSchema.safeParse(parseTemplateDocument(source));
+    if (!parsed.success) {
+      throw new ApiError(
+        422,
+        'INVALID_TEMPLATE',
+        'Template validation failed',
+        parsed.error.issues,
+        'ZodError'
+      );
+    }
+    template = parsed.data;
+  } else {
+    // Only JSON bodies go through the validator, YAML is validated above
+    template = c.req.valid('json') as SandboxTemplate;
+    source = JSON.stringify(template, null, 2);
+  }
+  const record = await getTemplateStore(c.env).put(
+    name,
+    template,
+    yaml ? 'yaml' : 'json',
+    source
+  );
+  return c.json(record);
+});
+
+app.openapi(listTemplatesRoute, async (c) => {
+  const templates = await getTemplateStore(c.env).list();
+  return c.json({ templates });
+});
+
+app.openapi(getTemplateRoute, async (c) => {
+  const { name } = c.req.valid('param');
+  const record = await getTemplateStore(c.env).get(name);
+  if (!record) {
+    return c.json(errorBody('TEMPLATE_NOT_FOUND', 'Template not found'), 404);
+  }
+  return c.json(record, 200);
+});
+
+app.openapi(deleteTemplateRoute, async (c) => {
+  const { name } = c.req.valid('param');
+  const deleted = await getTemplateStore(c.env).delete(name);
+  if (!deleted) {
+    return c.json(errorBody('TEMPLATE_NOT_FOUND', 'Template not found'), 404);
+  }
+  return c.body(null, 204);
+});
+
+export default app;
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type Env } from '../types';
+import app from './terminal';
+
+const sandbox = {
+  startProcess: vi.fn(async (_command: string, _options: object) => ({})),
+  getProcessLogs: vi.fn(async () => ({ stdout: 'listening\n', stderr: '' })),
+  getProcess: vi.fn(async () => ({ status: 'running' })),
+  killProcess: vi.fn(async (_id: string) => {}),
+  wsConnect: vi.fn(
+    async (_request: Request, _port: number) => new Response('connected')
+  ),
+};
+
+vi.mock('@cloudflare/sandbox', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cloudflare/sandbox')>()),
+  getSandbox: () => sandbox,
+}));
+
+function openTerminal(query: Record<string, string>, upgrade = true) {
+  const search = new URLSearchParams(query);
+  return app.request(
+    `/sandbox/sandbox-123/terminal?${search}`,
+    { headers: upgrade ? { Upgrade: 'websocket' } : {} },
+    { Sandbox: {} } as unknown as Env
+  );
+}
+
+describe('terminal route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    ['an invalid variable name', '{"A=B; rm -rf /":"x"}'],
+    ['a non-string value', '{"PORT":8080}'],
+    ['malformed JSON', '{'],
+  ])('rejects env with %s', async (_, env) => {
+    const response = await openTerminal({ env });
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body).toMatchObject({ ok: false, error: { code: 'INVALID_ENV' } });
+  });
+
+  it('needs a WebSocket upgrade', async () => {
+    const response = await openTerminal({}, false);
+    expect(response.status).toBe(426);
+    expect(sandbox.startProcess).not.toHaveBeenCalled();
+  });
+
+  it('connects the WebSocket to a new bridge', async () => {
+    const response = await openTerminal({
+      cwd: '/workspace',
+      env: '{"TERM":"xterm-256color"}',
+      cols: '120',
+      rows: '40',
+    });
+    expect(await response.text()).toBe('connected');
+    const [command] = sandbox.startProcess.mock.calls[0];
+    expect(command).toContain("cd '/workspace'");
+    expect(command).toContain("export TERM='xterm-256color'");
+    const [request, port] = sandbox.wsConnect.mock.calls[0];
+    const url = new URL(request.url);
+    expect(url.pathname).toBe('/terminal');
+    expect(url.searchParams.get('cols')).toBe('120');
+    expect(url.searchParams.get('rows')).toBe('40');
+    expect(url.searchParams.get('token')).toBeTruthy();
+    expect(command).toContain(`${port} '${url.searchParams.get('token')}'`);
+  });
+
+  it('tries another port when the bridge exits early', async () => {
+    sandbox.getProcessLogs.mockResolvedValueOnce({
+      stdout: '',
+      stderr: 'Address already in use',
+    });
+    sandbox.getProcess.mockResolvedValueOnce({ status: 'failed' });
+    const response = await openTerminal({});
+    expect(response.status).toBe(200);
+    expect(sandbox.startProcess).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops the bridge when the connection fails', async () => {
+    sandbox.wsConnect.mockRejectedValueOnce(new Error('connection refused'));
+    const response = await openTerminal({});
+    expect(response.status).toBe(500);
+    const [, options] = sandbox.startProcess.mock.calls[0];
+    expect(sandbox.killProcess).toHaveBeenCalledWith(
+      (options as { processId: string }).processId
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { getSandbox } from '@cloudflare/sandbox';
+import { createRoute, z } from '@hono/zod-openapi';
+import { createApp } from '../app';
+import { ApiError, errorBody, errorResponse, errorResponses } from '../errors';
+import { ENV_NAME } from '../shell';
+import { startTerminalBridge } from '../terminal';
+
+const app = createApp();
+
+const IdentityParamsSchema = z.object({
+  identity: z
+    .string()
+    .min(3)
+    .openapi({
+      param: {
+        name: 'identity',
+        in: 'path',
+      },
+      example: 'sandbox-123',
+    }),
+});
+
+const TerminalQuerySchema = z
+  .object({
+    cwd: z
+      .string()
+      .min(1)
+      .optional()
+      .openapi({
+        description: 'Directory the shell starts in',
+        example: '/workspace/repo',
+      }),
+    env: z
+      .string()
+      .optional()
+      .openapi({
+        description: 'JSON object of extra environment variables',
+        example: '{"NODE_ENV":"development"}',
+      }),
+    cols: z.coerce.number().int().min(1).max(1000).optional(),
+    rows: z.coerce.number().int().min(1).max(1000).optional(),
+    sessionId: z.string().min(3).optional(),
+  })
+  .openapi('TerminalQuery');
+
+const terminalRoute = createRoute({
+  method: 'get',
+  path: '/sandbox/{identity}/terminal',
+  description:
+    'Open a WebSocket attached to a login shell in a pseudo-terminal. Send ' +
+    'keystrokes as binary frames or `{"type":"input","data":"..."}` and ' +
+    'resize with `{"type":"resize","cols":120,"rows":40}`. Output arrives ' +
+    'as binary frames, followed by `{"type":"exit","code":0}` when the ' +
+    'shell exits. Browsers can pass a bearer token as `access_token`.',
+  request: {
+    params: IdentityParamsSchema,
+    query: TerminalQuerySchema,
+  },
+  responses: {
+    ...errorResponses,
+    101: {
+      description: 'Switched to a WebSocket attached to the terminal',
+    },
+    426: errorResponse('The request is not a WebSocket upgrade'),
+  },
+});
+
+function parseEnv(value?: string) {
+  if (value === undefined) {
+    return undefined;
+  }
+  let env: unknown;
+  try {
+    env = JSON.parse(value);
+  } catch {
+    env = null;
+  }
+  const valid =
+    typeof env === 'object' &&
+    env !== null &&
+    !Array.isArray(env) &&
+    Object.entries(env).every(
+      ([key, entry]) => ENV_NAME.test(key) && typeof entry === 'string'
+    );
+  if (!valid) {
+    throw new ApiError(
+      422,
+      'INVALID_ENV',
+      'env must be a JSON object mapping variable names to string values'
+    );
+  }
+  return env as Record<string, string>;
+}
+
+app.openapi(terminalRoute, async (c) => {
+  const { identity } = c.req.valid('param');
+  const { cwd, env, cols, rows, sessionId } = c.req.valid('query');
+  const environment = parseEnv(env);
+  if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+    return c.json(
+      errorBody('UPGRADE_REQUIRED', 'Expected a WebSocket upgrade request'),
+      426
+    );
+  }
+  const sandbox = getSandbox(c.env.Sandbox, identity);
+  const executor = sessionId ? await sandbox.getSession(sessionId) : sandbox;
+  const bridge = await startTerminalBridge(executor, {
+    cwd,
+    env: environment,
+    cols,
+    rows,
+  });
+  try {
+    const url = new URL(bridge.path, c.req.url);
+    return await sandbox.wsConnect(new Request(url, c.req.raw), bridge.port);
+  } catch (error) {
+    await executor.killProcess(bridge.processId).catch(() => {});
+    throw error;
+  }
+});
+
+export default app;
@@ -0,0 +1,144 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { localExecutor, type LocalExecutor } from '../test/executor';
+import { globFiles, globToRegExp, pathFilter, searchFiles } from './search';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['*.ts', 'src/deep/index.ts', true],
+    ['src/*.ts', 'src/index.ts', true],
+    ['src/*.ts', 'src/deep/index.ts', false],
+    ['src/**/*.ts', 'src/index.ts', true],
+    ['src/**/*.ts', 'src/a/b/index.ts', true],
+    ['./docs/', 'docs', true],
+    ['file?.md', 'file1.md', true],
+    ['file?.md', 'file10.md', false],
+    ['*.{js,ts}', 'lib/index.js', true],
+    ['*.{js,ts}', 'lib/index.jsx', false],
+    ['data[0-9].csv', 'data7.csv', true],
+    ['data[!0-9].csv', 'data7.csv', false],
+    ['a+b (1).txt', 'a+b (1).txt', true],
+  ])('%s against %s is %s', (glob, path, expected) => {
+    expect(globToRegExp(glob).test(path)).toBe(expected);
+  });
+});
+
+describe('pathFilter', () => {
+  it('excludes everything below an excluded directory', () => {
+    const matches = pathFilter({
+      include: ['*.js'],
+      exclude: ['node_modules'],
+    });
+    expect(matches('src/index.js')).toBe(true);
+    expect(matches('node_modules/pkg/index.js')).toBe(false);
+    expect(matches('src/index.ts')).toBe(false);
+  });
+
+  it('leaves out hidden paths unless asked', () => {
+    expect(pathFilter({})('.github/workflows/ci.yml')).toBe(false);
+    expect(pathFilter({ includeHidden: true })('.env')).toBe(true);
+  });
+});
+
+describe('searching a directory', () => {
+  let executor: LocalExecutor;
+  let root: string;
+  let cleanup: () => Promise<void>;
+
+  async function write(path: string, content: string) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+
+  beforeEach(async () => {
+    ({ executor, root, cleanup } = await localExecutor());
+    await write('src/index.ts', 'const a = 1;\nconst TODO = 2;\nexport {};\n');
+    await write('src/util.ts', '// todo: split\n');
+    await write('README.md', 'Nothing to do\n');
+    await write('build/out.js', '// TODO generated\n');
+    await write('.gitignore', 'build/\n');
+    await executor.exec('git init -q');
+  });
+
+  afterEach(() => cleanup());
+
+  it('globs files not ignored by git', async () => {
+    const { files, truncated } = await globFiles(
+      executor,
+      root,
+      '**/*.{ts,js}',
+      {},
+      10
+    );
+    expect(files.map((file) => file.relativePath)).toEqual([
+      'src/index.ts',
+      'src/util.ts',
+    ]);
+    expect(files[0]).toMatchObject({
+      name: 'index.ts',
+      absolutePath: `${root}/src/index.ts`,
+      type: 'file',
+      size: 40,
+    });
+    expect(truncated).toBe(false);
+  });
+
+  it('includes ignored files when asked and truncates', async () => {
+    const { files, truncated } = await globFiles(
+      executor,
+      root,
+      '*.js',
+      { gitignore: false },
+      10
+    );
+    expect(files.map((file) => file.relativePath)).toEqual(['build/out.js']);
+    expect(truncated).toBe(false);
+    const limited = await globFiles(executor, root, '*.ts', {}, 1);
+    expect(limited.truncated).toBe(true);
+  });
+
+  it('finds literal matches with their context', async () => {
+    const result = await searchFiles(executor, root, {
+      query: 'TODO',
+      contextLines: 1,
+      maxResults: 10,
+    });
+    expect(result).toEqual({
+      matches: [
+        {
+          path: 'src/index.ts',
+          line: 2,
+          column: 7,
+          preview: 'const TODO = 2;',
+          before: [{ line: 1, text: 'const a = 1;' }],
+          after: [{ line: 3, text: 'export {};' }],
+        },
+      ],
+      filesSearched: 3,
+      truncated: false,
+    });
+  });
+
+  it('searches case insensitively with a regular expression', async () => {
+    const result = await searchFiles(executor, root, {
+      query: 't[o]do\\b',
+      regex: true,
+      caseSensitive: false,
+      include: ['src/**'],
+      maxResults: 1,
+    });
+    expect(result.matches).toHaveLength(1);
+    expect(result).toMatchObject({ filesSearched: 2, truncated: true });
+  });
+
+  it('rejects invalid regular expressions', async () => {
+    await expect(
+      searchFiles(executor, root, {
+        query: '(',
+        regex: true,
+        maxResults: 10,
+      })
+    ).rejects.toMatchObject({ status: 422, code: 'INVALID_PATTERN' });
+  });
+});
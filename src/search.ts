@@ -0,0 +1,328 @@
+import { type ExecutionSession, type FileInfo } from '@cloudflare/sandbox';
+import { ApiError } from './errors';
+import { shellQuote } from './shell';
+
+type SearchExecutor = Pick<ExecutionSession, 'exec' | 'writeFile'>;
+
+const MAX_PREVIEW_LENGTH = 300;
+
+export interface FileFilter {
+  include?: string[];
+  exclude?: string[];
+  /** Skip files ignored by .gitignore when the root is inside a repository */
+  gitignore?: boolean;
+  includeHidden?: boolean;
+}
+
+export interface SearchOptions extends FileFilter {
+  query: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  contextLines?: number;
+  maxResults: number;
+}
+
+export interface ContextLine {
+  line: number;
+  text: string;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  column: number;
+  preview: string;
+  before: ContextLine[];
+  after: ContextLine[];
+}
+
+function globSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      const options = pattern.slice(i + 1, end).split(',').map(globSource);
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else if (char === '[' && pattern.indexOf(']', i + 1) > i) {
+      const end = pattern.indexOf(']', i + 1);
+      source += pattern.slice(i, end + 1).replace(/^\[!/, '[^');
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|{}[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Convert a glob to a regular expression over paths relative to the search
+ * root. `**` spans directories, `*` and `?` stay within one segment and a
+ * pattern without a slash matches the file name at any depth.
+ */
+export function globToRegExp(glob: string) {
+  const pattern = glob.replace(/^\.\//, '').replace(/\/+$/, '');
+  const anywhere = pattern.includes('/') ? '' : '(?:.*/)?';
+  return new RegExp(`^${anywhere}${globSource(pattern)}$`);
+}
+
+function ancestors(path: string) {
+  const parts = path.split('/');
+  return parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Build a predicate over relative paths. Excludes also match any parent
+ * directory, so `node_modules` leaves out everything below it.
+ */
+export function pathFilter(filter: FileFilter) {
+  const includes = (filter.include ?? []).map(globToRegExp);
+  const excludes = (filter.exclude ?? []).map(globToRegExp);
+  const hidden = (path: string) =>
+    path.split('/').some((part) => part.startsWith('.'));
+  const excluded = (path: string) =>
+    ancestors(path).some((part) => excludes.some((regex) => regex.test(part)));
+  return (path: string) =>
+    (filter.includeHidden || !hidden(path)) &&
+    (includes.length === 0 || includes.some((regex) => regex.test(path))) &&
+    !excluded(path);
+}
+
+/**
+ * List files below `root` as NUL separated relative paths, asking git for
+ * the non-ignored files when the root is inside a work tree.
+ */
+function listCommand(root: string, gitignore: boolean) {
+  const files = '\\( -type f -o -type l \\) -print0';
+  const find = `find . -mindepth 1 -name .git -prune -o ${files}`;
+  const relative = `${find} | sed -z 's#^\\./##'`;
+  const git = 'git ls-files --cached --others --exclude-standard -z';
+  const inRepository = 'git rev-parse --is-inside-work-tree >/dev/null 2>&1';
+  const list = gitignore
+    ? `if ${inRepository}; then ${git}; else ${relative}; fi`
+    : relative;
+  return `cd ${shellQuote(root)} && { ${list}; }`;
+}
+
+function parseStat(root: string, output: string): FileInfo[] {
+  const fields = output.split('\0');
+  const files: FileInfo[] = [];
+  for (let i = 0; i + 4 < fields.length; i += 5) {
+    const [relativePath, size, modified, mode, kind] = fields.slice(i, i + 5);
+    files.push({
+      name: relativePath.split('/').pop() ?? relativePath,
+      absolutePath: `${root.replace(/\/+$/, '')}/${relativePath}`,
+      relativePath,
+      type: kind === 'symbolic link' ? 'symlink' : 'file',
+      size: Number(size),
+      modifiedAt: new Date(Number(modified) * 1000).toISOString(),
+      mode,
+      permissions: {
+        readable: mode[1] === 'r',
+        writable: mode[2] === 'w',
+        executable: mode[3] === 'x' || mode[3] === 's',
+      },
+    });
+  }
+  return files;
+}
+
+async function listFiles(
+  executor: SearchExecutor,
+  root: string,
+  filter: FileFilter
+) {
+  const result = await executor.exec(
+    listCommand(root, filter.gitignore ?? true)
+  );
+  if (!result.success && !result.stdout) {
+    throw new Error(result.stderr.trim() || `Cannot list files in ${root}`);
+  }
+  const matches = pathFilter(filter);
+  return result.stdout.split('\0').filter((path) => path && matches(path));
+}
+
+/**
+ * Write the path list to a temporary file so it can be fed to xargs.
+ */
+async function withPathList<T>(
+  executor: SearchExecutor,
+  paths: string[],
+  run: (list: string) => Promise<T>
+) {
+  const list = `/tmp/tribble-paths-${crypto.randomUUID()}`;
+  await executor.writeFile(list, paths.join('\n'));
+  try {
+    return await run(shellQuote(list));
+  } finally {
+    await executor.exec(`rm -f ${shellQuote(list)}`).catch(() => {});
+  }
+}
+
+/**
+ * Find files below `root` matching a glob, with ListFiles style entries.
+ */
+export async function globFiles(
+  executor: SearchExecutor,
+  root: string,
+  pattern: string,
+  filter: FileFilter,
+  limit: number
+) {
+  const paths = await listFiles(executor, root, {
+    ...filter,
+    include: [pattern],
+  });
+  const selected = paths.sort().slice(0, limit);
+  if (selected.length === 0) {
+    return { files: [], truncated: false };
+  }
+  const files = await withPathList(executor, selected, async (list) => {
+    const stat = `xargs -d '\\n' -r stat --printf '%n\\0%s\\0%Y\\0%A\\0%F\\0'`;
+    const result = await executor.exec(
+      `cd ${shellQuote(root)} && ${stat} < ${list}`
+    );
+    return parseStat(root, result.stdout);
+  });
+  return { files, truncated: paths.length > limit };
+}
+
+function matchColumn(text: string, options: SearchOptions) {
+  if (options.regex) {
+    const flags = options.caseSensitive === false ? 'i' : '';
+    const index = text.search(new RegExp(options.query, flags));
+    return Math.max(index, 0) + 1;
+  }
+  const index =
+    options.caseSensitive === false
+      ? text.toLowerCase().indexOf(options.query.toLowerCase())
+      : text.indexOf(options.query);
+  return Math.max(index, 0) + 1;
+}
+
+function preview(text: string) {
+  return text.length > MAX_PREVIEW_LENGTH
+    ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Turn `grep -n -H -Z` output into matches. Match lines look like
+ * `path\0line:text` and context lines like `path\0line-text`.
+ */
+function parseGrep(output: string, options: SearchOptions) {
+  const entries = output
+    .split('\n')
+    .map((line) => {
+      const separator = line.indexOf('\0');
+      const rest = line.slice(separator + 1);
+      const match = rest.match(/^(\d+)([:-])/);
+      if (separator < 0 || !match) {
+        return null;
+      }
+      return {
+        path: line.slice(0, separator),
+        line: Number(match[1]),
+        isMatch: match[2] === ':',
+        text: rest.slice(match[0].length),
+      };
+    })
+    .filter((entry) => entry !== null);
+
+  const context = options.contextLines ?? 0;
+  const matches: SearchMatch[] = [];
+  entries.forEach((entry, index) => {
+    if (!entry.isMatch) {
+      return;
+    }
+    const near = (offset: number) => {
+      const other = entries[index + offset];
+      return other?.path === entry.path &&
+        other.line === entry.line + offset
+        ? { line: other.line, text: preview(other.text) }
+        : null;
+    };
+    const before: ContextLine[] = [];
+    const after: ContextLine[] = [];
+    for (let offset = 1; offset <= context; offset++) {
+      const previous = near(-offset);
+      if (previous) {
+        before.unshift(previous);
+      }
+      const next = near(offset);
+      if (next) {
+        after.push(next);
+      }
+    }
+    matches.push({
+      path: entry.path,
+      line: entry.line,
+      column: matchColumn(entry.text, options),
+      preview: preview(entry.text),
+      before,
+      after,
+    });
+  });
+  return matches;
+}
+
+/**
+ * Search file contents below `root` with grep, literal by default or as a
+ * Perl compatible regular expression.
+ */
+export async function searchFiles(
+  executor: SearchExecutor,
+  root: string,
+  options: SearchOptions
+) {
+  if (options.regex) {
+    try {
+      new RegExp(options.query);
+    } catch (error) {
+      throw new ApiError(
+        422,
+        'INVALID_PATTERN',
+        error instanceof Error ? error.message : 'Invalid regular expression'
+      );
+    }
+  }
+  const paths = await listFiles(executor, root, options);
+  if (paths.length === 0) {
+    return { matches: [], filesSearched: 0, truncated: false };
+  }
+
+  const context = options.contextLines ?? 0;
+  const flags = ['-H', '-n', '-Z', '-I', '--color=never'];
+  flags.push(options.regex ? '-P' : '-F');
+  if (options.caseSensitive === false) {
+    flags.push('-i');
+  }
+  if (context > 0) {
+    flags.push(`-C ${context}`);
+  }
+  // One more than requested so truncation can be detected
+  const limit = options.maxResults + 1;
+  flags.push(`-m ${limit}`);
+  const lines = limit * (2 * context + 2);
+  const output = await withPathList(executor, paths, async (list) => {
+    const pattern = shellQuote(options.query);
+    const grep = `xargs -d '\\n' -r grep ${flags.join(' ')} -e ${pattern} --`;
+    const command = `cd ${shellQuote(root)} && ${grep} < ${list}`;
+    return (await executor.exec(`${command} | head -n ${lines}`)).stdout;
+  });
+  const matches = parseGrep(output, options);
+  return {
+    matches: matches.slice(0, options.maxResults),
+    filesSearched: paths.length,
+    truncated: matches.length > options.maxResults,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from './errors';
+import { shellQuote, withShellOptions } from './shell';
+
+describe('shellQuote', () => {
+  it('wraps values in single quotes', () => {
+    expect(shellQuote('hello world')).toBe("'hello world'");
+    expect(shellQuote('')).toBe("''");
+  });
+
+  it('keeps shell syntax literal', () => {
+    expect(shellQuote('$(rm -rf /) `id` $HOME; echo')).toBe(
+      "'$(rm -rf /) `id` $HOME; echo'"
+    );
+  });
+
+  it('escapes embedded single quotes', () => {
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+  });
+});
+
+describe('withShellOptions', () => {
+  it('returns the command unchanged without options', () => {
+    expect(withShellOptions('ls -la')).toBe('ls -la');
+    expect(withShellOptions('ls -la', { env: {} })).toBe('ls -la');
+  });
+
+  it('changes directory inside a subshell', () => {
+    expect(withShellOptions('ls', { cwd: '/workspace/my app' })).toBe(
+      "(cd '/workspace/my app' && ls)"
+    );
+  });
+
+  it('exports quoted environment variables after the cd', () => {
+    expect(
+      withShellOptions('npm test', {
+        cwd: '/workspace',
+        env: { NODE_ENV: 'test', GREETING: "it's here" },
+      })
+    ).toBe(
+      "(cd '/workspace' && export NODE_ENV='test' && " +
+        "export GREETING='it'\\''s here' && npm test)"
+    );
+  });
+
+  it('rejects invalid environment variable names', () => {
+    expect(() =>
+      withShellOptions('true', { env: { 'A=B; rm -rf /': 'x' } })
+    ).toThrow('Invalid environment variable name');
+    expect(() => withShellOptions('true', { env: { '1ABC': 'x' } })).toThrow();
+  });
+
+  it('reports invalid names as validation failures', () => {
+    let error: unknown;
+    try {
+      withShellOptions('true', { env: { 'A B': 'x' } });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 422, code: 'VALIDATION_FAILED' });
+  });
+});
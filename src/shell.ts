@@ -0,0 +1,42 @@
+import { ApiError } from './errors';
+
+/**
+ * Quote a value so it is passed to the sandbox shell as a single literal word.
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Names that can be exported as shell environment variables. */
+export const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface ShellOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * The container API only receives the command string, so working directory
+ * and environment are applied inside a subshell. Using a subshell keeps the
+ * session's own cwd and environment untouched.
+ */
+export function withShellOptions(command: string, options: ShellOptions = {}) {
+  const prefix: string[] = [];
+  if (options.cwd) {
+    prefix.push(`cd ${shellQuote(options.cwd)}`);
+  }
+  for (const [key, value] of Object.entries(options.env ?? {})) {
+    if (!ENV_NAME.test(key)) {
+      throw new ApiError(
+        422,
+        'VALIDATION_FAILED',
+        `Invalid environment variable name: ${key}`
+      );
+    }
+    prefix.push(`export ${key}=${shellQuote(value)}`);
+  }
+  if (prefix.length === 0) {
+    return command;
+  }
+  return `(${prefix.join(' && ')} && ${command})`;
+}
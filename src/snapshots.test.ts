@@ -0,0 +1,134 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { localExecutor, type LocalExecutor } from '../test/executor';
+import { createArchive } from './files';
+import { listSnapshots, restoreSnapshot } from './snapshots';
+import { type Env } from './types';
+
+interface StoredObject {
+  key: string;
+  body: Uint8Array;
+  customMetadata: Record<string, string>;
+}
+
+/** Bucket that pages its listing two objects at a time */
+function memoryBucket(objects: StoredObject[]) {
+  const toObject = ({ key, body, customMetadata }: StoredObject) => ({
+    key,
+    size: body.length,
+    uploaded: new Date('2026-01-01T00:00:00.000Z'),
+    customMetadata,
+    body: new Response(body).body,
+  });
+  return {
+    async get(key: string) {
+      const object = objects.find((candidate) => candidate.key === key);
+      return object ? toObject(object) : null;
+    },
+    async list({ prefix, cursor }: { prefix: string; cursor?: string }) {
+      const matching = objects.filter(({ key }) => key.startsWith(prefix));
+      const start = Number(cursor ?? 0);
+      const page = matching.slice(start, start + 2);
+      const truncated = start + 2 < matching.length;
+      return {
+        objects: page.map(toObject),
+        truncated,
+        cursor: truncated ? String(start + 2) : undefined,
+      };
+    },
+  };
+}
+
+function snapshotObject(
+  identity: string,
+  id: string,
+  createdAt: string,
+  body: Uint8Array = new Uint8Array()
+): StoredObject {
+  return {
+    key: `${identity}/${id}.tar.gz`,
+    body,
+    customMetadata: {
+      id,
+      identity,
+      path: '/workspace/repo',
+      gitHead: '',
+      createdAt,
+    },
+  };
+}
+
+function bucketEnv(objects: StoredObject[]) {
+  return { Snapshots: memoryBucket(objects) } as unknown as Env;
+}
+
+describe('listSnapshots', () => {
+  it('reads every page and puts the newest snapshot first', async () => {
+    const env = bucketEnv([
+      snapshotObject('sandbox-1', 'a', '2026-01-01T00:00:00.000Z'),
+      snapshotObject('sandbox-1', 'b', '2026-01-03T00:00:00.000Z'),
+      snapshotObject('sandbox-2', 'c', '2026-01-04T00:00:00.000Z'),
+      snapshotObject('sandbox-1', 'd', '2026-01-02T00:00:00.000Z'),
+    ]);
+    const snapshots = await listSnapshots(env, 'sandbox-1');
+    expect(snapshots.map(({ id }) => id)).toEqual(['b', 'd', 'a']);
+    expect(snapshots[0]).toMatchObject({
+      identity: 'sandbox-1',
+      path: '/workspace/repo',
+      gitHead: null,
+    });
+  });
+});
+
+describe('restoreSnapshot', () => {
+  let executor: LocalExecutor;
+  let root: string;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    ({ executor, root, cleanup } = await localExecutor());
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('reports snapshots that do not exist', async () => {
+    await expect(
+      restoreSnapshot(bucketEnv([]), executor, 'sandbox-1', 'missing')
+    ).rejects.toMatchObject({ status: 404, code: 'SNAPSHOT_NOT_FOUND' });
+  });
+
+  it('extracts the archive into the requested directory', async () => {
+    await mkdir(join(root, 'source/src'), { recursive: true });
+    await writeFile(join(root, 'source/src/index.ts'), 'export {}');
+    const archive = await createArchive(executor, join(root, 'source'));
+    let body: Uint8Array;
+    try {
+      body = new Uint8Array(await readFile(archive));
+    } finally {
+      await rm(archive, { force: true });
+    }
+    const env = bucketEnv([
+      snapshotObject('sandbox-1', 'a', '2026-01-01T00:00:00.000Z', body),
+    ]);
+
+    const target = join(root, 'restored');
+    const restored = await restoreSnapshot(
+      env,
+      executor,
+      'sandbox-1',
+      'a',
+      target
+    );
+    expect(restored).toMatchObject({
+      path: target,
+      entries: ['./src/index.ts'],
+      snapshot: { id: 'a', path: '/workspace/repo' },
+    });
+    expect(await readFile(join(target, 'src/index.ts'), 'utf8')).toBe(
+      'export {}'
+    );
+  });
+});
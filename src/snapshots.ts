@@ -0,0 +1,140 @@
+import { type ExecutionSession } from '@cloudflare/sandbox';
+import { ApiError } from './errors';
+import {
+  createArchive,
+  extractArchive,
+  openFileStream,
+  type ArchiveOptions,
+} from './files';
+import { shellQuote } from './shell';
+import { type Env } from './types';
+
+type SnapshotExecutor = Pick<
+  ExecutionSession,
+  'exec' | 'writeFile' | 'deleteFile' | 'readFileStream'
+>;
+
+export interface Snapshot {
+  id: string;
+  identity: string;
+  /** Directory the snapshot was taken from and restores into by default */
+  path: string;
+  gitHead: string | null;
+  size: number;
+  createdAt: string;
+  label?: string;
+}
+
+export interface SnapshotOptions extends ArchiveOptions {
+  path: string;
+  label?: string;
+}
+
+/**
+ * Snapshots live in the bucket as `<identity>/<id>.tar.gz` with their
+ * metadata stored as R2 custom metadata.
+ */
+function snapshotKey(identity: string, id: string) {
+  return `${identity}/${id}.tar.gz`;
+}
+
+function toSnapshot(object: R2Object): Snapshot {
+  const metadata = object.customMetadata ?? {};
+  return {
+    id: metadata.id,
+    identity: metadata.identity,
+    path: metadata.path,
+    gitHead: metadata.gitHead || null,
+    size: object.size,
+    createdAt: metadata.createdAt ?? object.uploaded.toISOString(),
+    label: metadata.label,
+  };
+}
+
+async function gitHead(executor: SnapshotExecutor, path: string) {
+  const result = await executor.exec(
+    `git -C ${shellQuote(path)} rev-parse HEAD`
+  );
+  return result.success ? result.stdout.trim() : '';
+}
+
+/**
+ * Archive a directory of the sandbox and upload it to the snapshot bucket.
+ * The archive is streamed straight from the container into R2.
+ */
+export async function createSnapshot(
+  env: Env,
+  executor: SnapshotExecutor,
+  identity: string,
+  { path, label, include, exclude }: SnapshotOptions
+) {
+  const id = crypto.randomUUID();
+  const head = await gitHead(executor, path);
+  const archive = await createArchive(executor, path, { include, exclude });
+  const source = await executor.readFileStream(archive);
+  const { metadata, body } = await openFileStream(source, {
+    onDone: () => executor.deleteFile(archive),
+  });
+
+  // R2 needs to know the length of a streamed upload up front
+  const { readable, writable } = new FixedLengthStream(metadata.size);
+  const customMetadata: Record<string, string> = {
+    id,
+    identity,
+    path,
+    gitHead: head,
+    createdAt: new Date().toISOString(),
+  };
+  if (label) {
+    customMetadata.label = label;
+  }
+  const [object] = await Promise.all([
+    env.Snapshots.put(snapshotKey(identity, id), readable, {
+      httpMetadata: { contentType: 'application/gzip' },
+      customMetadata,
+    }),
+    body.pipeTo(writable),
+  ]);
+  return toSnapshot(object);
+}
+
+export async function listSnapshots(env: Env, identity: string) {
+  const snapshots: Snapshot[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.Snapshots.list({
+      prefix: `${identity}/`,
+      cursor,
+      include: ['customMetadata'],
+    });
+    snapshots.push(...page.objects.map(toSnapshot));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Extract a snapshot into a sandbox, by default into the directory it was
+ * taken from. The target sandbox does not need to be the one the snapshot
+ * was taken in.
+ */
+export async function restoreSnapshot(
+  env: Env,
+  executor: SnapshotExecutor,
+  identity: string,
+  id: string,
+  path?: string
+) {
+  const object = await env.Snapshots.get(snapshotKey(identity, id));
+  if (!object) {
+    throw new ApiError(
+      404,
+      'SNAPSHOT_NOT_FOUND',
+      `Snapshot ${id} not found for sandbox ${identity}`
+    );
+  }
+  const snapshot = toSnapshot(object);
+  const target = path ?? snapshot.path;
+  const entries = await extractArchive(executor, target, object.body);
+  return { snapshot, path: target, entries };
+}
@@ -0,0 +1,62 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { localExecutor, type LocalExecutor } from '../test/executor';
+import { interactiveCommand, writeStdin } from './stdin';
+
+let executor: LocalExecutor;
+let cleanup: () => Promise<void>;
+
+beforeEach(async () => {
+  ({ executor, cleanup } = await localExecutor());
+});
+
+afterEach(() => cleanup());
+
+/** Start an interactive command the way the session would, with bash */
+function startInteractive(processId: string, command: string) {
+  const child = spawn('bash', ['-c', interactiveCommand(processId, command)]);
+  let stdout = '';
+  child.stdout.on('data', (data) => (stdout += data));
+  const exited = new Promise<string>((resolve) =>
+    child.on('close', () => resolve(stdout))
+  );
+  return { child, exited };
+}
+
+async function waitFor(path: string) {
+  for (let attempt = 0; attempt < 50 && !existsSync(path); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('interactive commands', () => {
+  it('feeds separate writes to one process until stdin closes', async () => {
+    const processId = `test-${crypto.randomUUID()}`;
+    const fifo = `/tmp/tribble-stdin/${processId}`;
+    // [[ ]] only exists in bash, so this also checks the wrapper's shell
+    const { exited } = startInteractive(
+      processId,
+      'while read -r line; do [[ -n $line ]] && echo "got $line"; done'
+    );
+    await waitFor(`${fifo}.holder`);
+
+    expect(await writeStdin(executor, processId, 'one\n')).toEqual({
+      bytes: 4,
+      closed: false,
+    });
+    const written = await writeStdin(executor, processId, 'dHdvCg==', {
+      encoding: 'base64',
+      close: true,
+    });
+    expect(written).toEqual({ bytes: 4, closed: true });
+    expect(await exited).toBe('got one\ngot two\n');
+    expect(existsSync(fifo)).toBe(false);
+  });
+
+  it('refuses processes without a stdin pipe', async () => {
+    await expect(
+      writeStdin(executor, 'not-interactive', 'data')
+    ).rejects.toMatchObject({ status: 409, code: 'STDIN_NOT_AVAILABLE' });
+  });
+});
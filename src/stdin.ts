@@ -0,0 +1,92 @@
+import { type ExecutionSession } from '@cloudflare/sandbox';
+import { ApiError } from './errors';
+import { shellQuote } from './shell';
+
+type StdinExecutor = Pick<ExecutionSession, 'exec' | 'writeFile'>;
+
+const STDIN_DIR = '/tmp/tribble-stdin';
+/** How long a write may wait for a process that is not reading */
+const WRITE_TIMEOUT_SECONDS = 10;
+
+export interface StdinWriteOptions {
+  encoding?: 'utf-8' | 'base64';
+  /** Close stdin once the data is written so the process sees EOF */
+  close?: boolean;
+}
+
+function fifoPath(processId: string) {
+  return `${STDIN_DIR}/${encodeURIComponent(processId)}`;
+}
+
+/**
+ * Wrap a command so its stdin is a named pipe that outlives any single
+ * write. A sleeping holder keeps the write end open until stdin is closed,
+ * and a watcher removes the pipe and holder once the wrapper is gone, even
+ * when the process is killed. The wrapper runs bash, like every other
+ * command of the session, so bash syntax in `command` keeps working.
+ */
+export function interactiveCommand(processId: string, command: string) {
+  const fifo = shellQuote(fifoPath(processId));
+  return `bash -c ${shellQuote(
+    [
+      `mkdir -p ${STDIN_DIR} && rm -f ${fifo} && mkfifo ${fifo} || exit 1`,
+      `sleep 2147483647 > ${fifo} 2>/dev/null &`,
+      `echo $! > ${fifo}.holder`,
+      `(while kill -0 $$ 2>/dev/null; do sleep 1; done;` +
+        ` kill $(cat ${fifo}.holder 2>/dev/null) 2>/dev/null;` +
+        ` rm -f ${fifo} ${fifo}.holder) >/dev/null 2>&1 &`,
+      `{ ${command}\n} < ${fifo}`,
+    ].join('\n')
+  )}`;
+}
+
+/**
+ * Write data to the stdin of a process started with `interactiveCommand`.
+ */
+export async function writeStdin(
+  executor: StdinExecutor,
+  processId: string,
+  data: string,
+  options: StdinWriteOptions = {}
+) {
+  const fifo = shellQuote(fifoPath(processId));
+  const check = await executor.exec(`test -p ${fifo}`);
+  if (!check.success) {
+    throw new ApiError(
+      409,
+      'STDIN_NOT_AVAILABLE',
+      'Process was not started as interactive or its stdin is closed'
+    );
+  }
+
+  let bytes = 0;
+  if (data.length > 0) {
+    const staged = `/tmp/tribble-stdin-${crypto.randomUUID()}`;
+    await executor.writeFile(staged, data, { encoding: options.encoding });
+    try {
+      const write = await executor.exec(
+        `wc -c < ${shellQuote(staged)} && ` +
+          `timeout ${WRITE_TIMEOUT_SECONDS} sh -c ` +
+          shellQuote(`cat ${shellQuote(staged)} > ${fifo}`)
+      );
+      if (!write.success) {
+        throw new ApiError(
+          409,
+          'STDIN_WRITE_FAILED',
+          write.stderr.trim() || 'Process is not reading its stdin'
+        );
+      }
+      bytes = Number(write.stdout.trim());
+    } finally {
+      await executor.exec(`rm -f ${shellQuote(staged)}`).catch(() => {});
+    }
+  }
+
+  if (options.close) {
+    // Dropping the holder closes the last write end, so the reader sees EOF
+    await executor.exec(
+      `kill $(cat ${fifo}.holder) 2>/dev/null; rm -f ${fifo}.holder ${fifo}`
+    );
+  }
+  return { bytes, closed: options.close ?? false };
+}
@@ -0,0 +1,132 @@
+import { DurableObject } from 'cloudflare:workers';
+import { parse } from 'yaml';
+import { ApiError } from './errors';
+import { type Env } from './types';
+
+export interface TemplateRepository {
+  url: string;
+  branch?: string;
+  /** Defaults to /workspace/<repository name> */
+  targetDir?: string;
+}
+
+export interface TemplateCommand {
+  command: string;
+  name?: string;
+  /** Defaults to the repository directory when the template has one */
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+export interface TemplateService extends TemplateCommand {
+  name: string;
+}
+
+export interface TemplatePort {
+  port: number;
+  name?: string;
+}
+
+/**
+ * A recipe for bootstrapping a sandbox: check out a repository, run setup
+ * commands, start background services and expose their ports, in that
+ * order. `env` applies to every command and service.
+ */
+export interface SandboxTemplate {
+  description?: string;
+  repo?: TemplateRepository;
+  env?: Record<string, string>;
+  setup?: (string | TemplateCommand)[];
+  services?: TemplateService[];
+  ports?: TemplatePort[];
+}
+
+export type TemplateFormat = 'json' | 'yaml';
+
+export interface StoredTemplate {
+  name: string;
+  description?: string;
+  format: TemplateFormat;
+  /** The document as it was uploaded */
+  source: string;
+  template: SandboxTemplate;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TemplateSummary = Pick<
+  StoredTemplate,
+  'name' | 'description' | 'format' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Parse an uploaded YAML template document. YAML is a superset of JSON, so
+ * JSON documents parse the same way. The result still needs validating.
+ */
+export function parseTemplateDocument(source: string): unknown {
+  try {
+    return parse(source);
+  } catch (error) {
+    throw new ApiError(
+      422,
+      'INVALID_TEMPLATE',
+      error instanceof Error ? error.message : 'Template is not valid YAML'
+    );
+  }
+}
+
+/**
+ * Durable Object holding the sandbox templates known to the worker. A single
+ * named instance is shared by the whole worker.
+ */
+export class TemplateStore extends DurableObject<Env> {
+  async put(
+    name: string,
+    template: SandboxTemplate,
+    format: TemplateFormat,
+    source: string
+  ) {
+    const existing = await this.get(name);
+    const now = new Date().toISOString();
+    const record: StoredTemplate = {
+      name,
+      description: template.description,
+      format,
+      source,
+      template,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await this.ctx.storage.put(`template:${name}`, record);
+    return record;
+  }
+
+  async get(name: string) {
+    return (
+      (await this.ctx.storage.get<StoredTemplate>(`template:${name}`)) ?? null
+    );
+  }
+
+  async list(): Promise<TemplateSummary[]> {
+    const records = await this.ctx.storage.list<StoredTemplate>({
+      prefix: 'template:',
+    });
+    return [...records.values()].map(
+      ({ name, description, format, createdAt, updatedAt }) => ({
+        name,
+        description,
+        format,
+        createdAt,
+        updatedAt,
+      })
+    );
+  }
+
+  async delete(name: string) {
+    return this.ctx.storage.delete(`template:${name}`);
+  }
+}
+
+export function getTemplateStore(env: Env) {
+  return env.Templates.get(env.Templates.idFromName('global'));
+}
@@ -0,0 +1,97 @@
+import { type ExecutionSession } from '@cloudflare/sandbox';
+import { ApiError } from './errors';
+import { shellQuote, withShellOptions, type ShellOptions } from './shell';
+
+type TerminalExecutor = Pick<
+  ExecutionSession,
+  'startProcess' | 'getProcess' | 'getProcessLogs' | 'killProcess'
+>;
+
+/** Copied into the image by the Dockerfile */
+const BRIDGE_PATH = '/opt/tribble/pty_bridge.py';
+const READY_TIMEOUT_MS = 10_000;
+const POLL_INTERVAL_MS = 100;
+const START_ATTEMPTS = 3;
+
+export interface TerminalSize {
+  cols?: number;
+  rows?: number;
+}
+
+export interface TerminalBridge {
+  processId: string;
+  port: number;
+  /** Path and query the WebSocket handshake must be sent to */
+  path: string;
+}
+
+function randomPort() {
+  return 20000 + Math.floor(Math.random() * 20000);
+}
+
+/**
+ * Wait for the bridge to print `listening`. Returns false when it exited
+ * first, which usually means the port was already taken.
+ */
+async function waitForBridge(executor: TerminalExecutor, processId: string) {
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const logs = await executor.getProcessLogs(processId);
+    if (logs.stdout.includes('listening')) {
+      return { ready: true, stderr: logs.stderr };
+    }
+    const process = await executor.getProcess(processId);
+    const alive =
+      process?.status === 'starting' || process?.status === 'running';
+    if (!alive) {
+      return { ready: false, stderr: logs.stderr };
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  await executor.killProcess(processId).catch(() => {});
+  throw new ApiError(
+    408,
+    'TERMINAL_TIMEOUT',
+    'The terminal did not start in time'
+  );
+}
+
+/**
+ * Start a single use PTY bridge for one WebSocket connection. The bridge is
+ * started like any other process, so the shell it spawns picks up the
+ * session's environment along with `cwd` and `env`, and it exits when the
+ * connection closes.
+ */
+export async function startTerminalBridge(
+  executor: TerminalExecutor,
+  options: ShellOptions & TerminalSize
+): Promise<TerminalBridge> {
+  const token = crypto.randomUUID();
+  let stderr = '';
+  for (let attempt = 0; attempt < START_ATTEMPTS; attempt++) {
+    const port = randomPort();
+    const processId = `terminal-${crypto.randomUUID()}`;
+    const command = `python3 ${BRIDGE_PATH} ${port} ${shellQuote(token)}`;
+    await executor.startProcess(
+      withShellOptions(command, { cwd: options.cwd, env: options.env }),
+      { processId }
+    );
+    const result = await waitForBridge(executor, processId);
+    if (result.ready) {
+      const query = new URLSearchParams({ token });
+      if (options.cols) {
+        query.set('cols', String(options.cols));
+      }
+      if (options.rows) {
+        query.set('rows', String(options.rows));
+      }
+      return { processId, port, path: `/terminal?${query}` };
+    }
+    stderr = result.stderr;
+  }
+  throw new ApiError(
+    503,
+    'TERMINAL_UNAVAILABLE',
+    stderr.trim() || 'Failed to start the terminal'
+  );
+}
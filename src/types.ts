@@ -1,6 +1,22 @@
 import { type Sandbox } from '@cloudflare/sandbox';
+import { type InterpreterHistory } from './history';
+import { type ClaudeJobStore } from './jobs';
+import { type SandboxRegistry } from './registry';
+import { type TemplateStore } from './templates';
 
 export interface Env {
 	Sandbox: DurableObjectNamespace<Sandbox>;
+	ClaudeJobs: DurableObjectNamespace<ClaudeJobStore>;
+	Registry: DurableObjectNamespace<SandboxRegistry>;
+	InterpreterHistory: DurableObjectNamespace<InterpreterHistory>;
+	Templates: DurableObjectNamespace<TemplateStore>;
+	Snapshots: R2Bucket;
 	ANTHROPIC_API_KEY: string;
+	API_KEYS?: string;
+	AUTH_TOKEN_SECRET?: string;
+	GIT_CREDENTIALS?: string;
+	FORGES?: string;
+	PACKAGE_MIRRORS?: string;
+	SANDBOX_MAX_LIFETIME?: string;
+	SANDBOX_IDLE_TIMEOUT?: string;
 }
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createWatchBuffer, type WatchEvent } from './watch';
+
+function buffer(accept: (path: string) => boolean = () => true) {
+  const emitted: WatchEvent[][] = [];
+  const emit = async (events: WatchEvent[]) => {
+    emitted.push(events);
+  };
+  const watch = createWatchBuffer('/workspace/', 100, accept, emit);
+  return { watch, emitted };
+}
+
+describe('createWatchBuffer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports a burst of writes once after the delay', async () => {
+    vi.useFakeTimers();
+    const { watch, emitted } = buffer();
+    watch.write('CREATE|/workspace/a.ts\nMODIFY|/workspace/a.ts\n');
+    watch.write('CLOSE_WRITE,CLOSE|/workspace/a.ts\nMODIFY|/workspace/b.ts\n');
+    expect(emitted).toEqual([]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(emitted).toEqual([
+      [
+        { type: 'created', path: 'a.ts', isDirectory: false },
+        { type: 'modified', path: 'b.ts', isDirectory: false },
+      ],
+    ]);
+  });
+
+  it('joins lines split across chunks', async () => {
+    const { watch, emitted } = buffer();
+    watch.write('DELETE|/work');
+    watch.write('space/old.txt\nCREATE,ISDIR|/workspace/dir\n');
+    await watch.close();
+    expect(emitted).toEqual([
+      [
+        { type: 'deleted', path: 'old.txt', isDirectory: false },
+        { type: 'created', path: 'dir', isDirectory: true },
+      ],
+    ]);
+  });
+
+  it('pairs moves into renames and settles moves out as deletes', async () => {
+    const { watch, emitted } = buffer();
+    watch.write('MOVED_FROM|/workspace/a.ts\nMOVED_TO|/workspace/b.ts\n');
+    watch.write('MOVED_FROM|/workspace/c.ts\n');
+    watch.write('CREATE|/workspace/d.ts\n');
+    watch.write('MOVED_FROM|/workspace/e.ts\n');
+    await watch.close();
+    expect(emitted).toEqual([
+      [
+        {
+          type: 'renamed',
+          path: 'b.ts',
+          previousPath: 'a.ts',
+          isDirectory: false,
+        },
+        { type: 'deleted', path: 'c.ts', isDirectory: false },
+        { type: 'created', path: 'd.ts', isDirectory: false },
+        { type: 'deleted', path: 'e.ts', isDirectory: false },
+      ],
+    ]);
+  });
+
+  it('drops files that come and go within the window', async () => {
+    const { watch, emitted } = buffer();
+    watch.write('CREATE|/workspace/.tmp1\nDELETE|/workspace/.tmp1\n');
+    watch.write('DELETE|/workspace/a.ts\nCREATE|/workspace/a.ts\n');
+    await watch.close();
+    expect(emitted).toEqual([
+      [{ type: 'modified', path: 'a.ts', isDirectory: false }],
+    ]);
+  });
+
+  it('skips rejected paths and lines outside the root', async () => {
+    const { watch, emitted } = buffer((path) => !path.endsWith('.log'));
+    watch.write('MODIFY|/workspace/debug.log\nMODIFY|/elsewhere/a.ts\n');
+    watch.write('Setting up watches.\nMODIFY,ISDIR|/workspace/src\n');
+    await watch.close();
+    expect(emitted).toEqual([]);
+  });
+});
@@ -0,0 +1,165 @@
+import { shellQuote } from './shell';
+
+export type WatchEventType = 'created' | 'modified' | 'deleted' | 'renamed';
+
+export interface WatchEvent {
+  type: WatchEventType;
+  /** Path relative to the watched root */
+  path: string;
+  previousPath?: string;
+  isDirectory: boolean;
+}
+
+interface RawEvent {
+  flags: string[];
+  path: string;
+  isDirectory: boolean;
+}
+
+const SEPARATOR = '|';
+
+/** Written to stderr once every directory below the root is watched */
+export const WATCHES_ESTABLISHED = 'Watches established';
+
+/**
+ * inotifywait prints one `EVENT,FLAGS|/absolute/path` line per change below
+ * `root`. Git internals are left out since every git command touches them.
+ * It is not quieted so stderr reports when the watches are in place.
+ */
+export function watchCommand(root: string) {
+  const events = 'create,modify,close_write,delete,moved_from,moved_to';
+  return [
+    'inotifywait -m -r',
+    `--format ${shellQuote(`%e${SEPARATOR}%w%f`)}`,
+    `-e ${events}`,
+    `--exclude ${shellQuote('/\\.git(/|$)')}`,
+    shellQuote(root),
+  ].join(' ');
+}
+
+function parseLine(line: string, root: string): RawEvent | null {
+  const separator = line.indexOf(SEPARATOR);
+  if (separator < 0) {
+    return null;
+  }
+  const flags = line.slice(0, separator).split(',');
+  const absolute = line.slice(separator + 1);
+  const prefix = `${root.replace(/\/+$/, '')}/`;
+  if (!absolute.startsWith(prefix)) {
+    return null;
+  }
+  return {
+    flags,
+    path: absolute.slice(prefix.length),
+    isDirectory: flags.includes('ISDIR'),
+  };
+}
+
+/**
+ * Merge a new event for a path into the one already pending for it, so a
+ * burst of writes is reported once. Returns null when the changes cancel
+ * out, like a temporary file created and deleted within the window.
+ */
+function merge(previous: WatchEvent | undefined, next: WatchEvent) {
+  if (!previous) {
+    return next;
+  }
+  switch (`${previous.type}:${next.type}`) {
+    case 'created:modified':
+    case 'renamed:modified':
+      return previous;
+    case 'created:deleted':
+      return null;
+    case 'deleted:created':
+      return { ...next, type: 'modified' as const };
+    default:
+      return next;
+  }
+}
+
+/**
+ * Turn raw inotifywait output into debounced, coalesced change events.
+ * Output may arrive split across chunks, so partial lines are buffered.
+ */
+export function createWatchBuffer(
+  root: string,
+  delay: number,
+  accept: (path: string) => boolean,
+  emit: (events: WatchEvent[]) => Promise<void>
+) {
+  let partial = '';
+  let pendingMove: RawEvent | null = null;
+  let pending = new Map<string, WatchEvent>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const queue = (event: WatchEvent) => {
+    if (!accept(event.path)) {
+      return;
+    }
+    const merged = merge(pending.get(event.path), event);
+    pending.delete(event.path);
+    if (merged) {
+      pending.set(event.path, merged);
+    }
+  };
+
+  // A move out of the tree has no matching MOVED_TO and is a delete
+  const settleMove = () => {
+    if (pendingMove) {
+      const { path, isDirectory } = pendingMove;
+      pendingMove = null;
+      queue({ type: 'deleted', path, isDirectory });
+    }
+  };
+
+  const flush = async () => {
+    timer = undefined;
+    settleMove();
+    const events = [...pending.values()];
+    pending = new Map();
+    if (events.length > 0) {
+      await emit(events);
+    }
+  };
+
+  const handle = (raw: RawEvent) => {
+    const { path, isDirectory, flags } = raw;
+    if (flags.includes('MOVED_TO') && pendingMove) {
+      const from = pendingMove.path;
+      pendingMove = null;
+      queue({ type: 'renamed', path, previousPath: from, isDirectory });
+      return;
+    }
+    settleMove();
+    if (flags.includes('MOVED_FROM')) {
+      pendingMove = raw;
+    } else if (flags.includes('CREATE') || flags.includes('MOVED_TO')) {
+      queue({ type: 'created', path, isDirectory });
+    } else if (flags.includes('DELETE')) {
+      queue({ type: 'deleted', path, isDirectory });
+    } else if (!isDirectory) {
+      queue({ type: 'modified', path, isDirectory });
+    }
+  };
+
+  return {
+    write(chunk: string) {
+      const lines = (partial + chunk).split('\n');
+      partial = lines.pop() ?? '';
+      for (const line of lines) {
+        const raw = parseLine(line, root);
+        if (raw) {
+          handle(raw);
+        }
+      }
+      if (!timer) {
+        timer = setTimeout(() => void flush().catch(() => {}), delay);
+      }
+    },
+    /** Emit whatever is still pending, e.g. when the watcher exits */
+    async close() {
+      clearTimeout(timer);
+      await flush();
+    },
+  };
+}
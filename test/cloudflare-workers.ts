@@ -0,0 +1,11 @@
+/**
+ * Stand-in for the `cloudflare:workers` runtime module, which only exists
+ * inside workerd. Like the real base class it keeps the state and env it is
+ * constructed with, so tests can hand a Durable Object fake storage.
+ */
+export class DurableObject<Env = unknown> {
+  constructor(
+    protected ctx: DurableObjectState,
+    protected env: Env
+  ) {}
+}
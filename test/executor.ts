@@ -0,0 +1,60 @@
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ExecResult, ExecutionSession } from '@cloudflare/sandbox';
+
+export type LocalExecutor = Pick<
+  ExecutionSession,
+  'exec' | 'writeFile' | 'deleteFile' | 'readFileStream'
+>;
+
+/**
+ * Stand-in for a sandbox session that runs commands with the local bash, so
+ * helpers that build shell commands can be tested against real tools. Each
+ * executor gets its own scratch directory as `root`.
+ */
+export async function localExecutor() {
+  const root = await mkdtemp(join(tmpdir(), 'sandbox-test-'));
+  const executor: LocalExecutor = {
+    exec: (command) => runBash(command, root),
+    async writeFile(path, content, options) {
+      const encoding = options?.encoding === 'base64' ? 'base64' : 'utf8';
+      await writeFile(path, Buffer.from(content, encoding));
+      return { success: true, path, timestamp: new Date().toISOString() };
+    },
+    async deleteFile(path) {
+      await unlink(path);
+      return { success: true, path, timestamp: new Date().toISOString() };
+    },
+    async readFileStream() {
+      throw new Error('readFileStream is not available locally');
+    },
+  };
+  const cleanup = () => rm(root, { recursive: true, force: true });
+  return { executor, root, cleanup };
+}
+
+function runBash(command: string, cwd: string) {
+  const started = Date.now();
+  return new Promise<ExecResult>((resolve, reject) => {
+    const child = spawn('bash', ['-c', command], { cwd });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (data) => (stdout += data));
+    child.stderr.on('data', (data) => (stderr += data));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      const exitCode = code ?? 1;
+      resolve({
+        success: exitCode === 0,
+        exitCode,
+        stdout,
+        stderr,
+        command,
+        duration: Date.now() - started,
+        timestamp: new Date(started).toISOString(),
+      });
+    });
+  });
+}
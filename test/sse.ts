@@ -0,0 +1,34 @@
+/** Encode events the way the container streams them */
+export function sse(...events: object[]) {
+  return events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+export function sseStream(...events: object[]) {
+  return new Response(sse(...events)).body!;
+}
+
+export interface ReceivedEvent {
+  id?: string;
+  event?: string;
+  data: Record<string, unknown>;
+}
+
+/** Parse an SSE response body into its ids, event names and JSON payloads */
+export async function readEvents(response: Response) {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((block): ReceivedEvent => {
+      const lines = block.split('\n');
+      const field = (name: string) =>
+        lines
+          .find((line) => line.startsWith(`${name}: `))
+          ?.slice(name.length + 2);
+      return {
+        id: field('id'),
+        event: field('event'),
+        data: JSON.parse(field('data') ?? '{}'),
+      };
+    });
+}
@@ -0,0 +1,41 @@
+import { vi } from 'vitest';
+
+interface ListOptions {
+  prefix?: string;
+  startAfter?: string;
+  limit?: number;
+  reverse?: boolean;
+}
+
+/**
+ * In-memory Durable Object storage with sorted keys, covering the get, put
+ * and list options the stores in this worker use.
+ */
+export function memoryStorage() {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    async get(key: string) {
+      return data.get(key);
+    },
+    async put(key: string, value: unknown) {
+      data.set(key, structuredClone(value));
+    },
+    list: vi.fn(async (options: ListOptions = {}) => {
+      const keys = [...data.keys()]
+        .filter((key) => key.startsWith(options.prefix ?? ''))
+        .filter((key) => !options.startAfter || key > options.startAfter)
+        .sort();
+      if (options.reverse) {
+        keys.reverse();
+      }
+      const page = keys.slice(0, options.limit);
+      return new Map(page.map((key) => [key, data.get(key)]));
+    }),
+  };
+}
+
+/** Durable Object state whose storage lives in memory */
+export function memoryState(storage = memoryStorage()) {
+  return { storage } as unknown as DurableObjectState;
+}
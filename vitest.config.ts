@@ -0,0 +1,21 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      'cloudflare:workers': fileURLToPath(
+        new URL('./test/cloudflare-workers.ts', import.meta.url)
+      ),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    server: {
+      deps: {
+        // Inlined so the alias above applies to the SDK's own imports
+        inline: ['@cloudflare/sandbox', '@cloudflare/containers'],
+      },
+    },
+  },
+});
@@ -4,11 +4,18 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
-		durableNamespaces: "Sandbox";
+		durableNamespaces: "Sandbox" | "ClaudeJobStore" | "SandboxRegistry" | "InterpreterHistory" | "TemplateStore";
 	}
 	interface Env {
 		ANTHROPIC_API_KEY: string;
+		SANDBOX_MAX_LIFETIME: "24h";
+		SANDBOX_IDLE_TIMEOUT: "2h";
 		Sandbox: DurableObjectNamespace<import("./src/index").Sandbox>;
+		ClaudeJobs: DurableObjectNamespace<import("./src/index").ClaudeJobStore>;
+		Registry: DurableObjectNamespace<import("./src/index").SandboxRegistry>;
+		InterpreterHistory: DurableObjectNamespace<import("./src/index").InterpreterHistory>;
+		Templates: DurableObjectNamespace<import("./src/index").TemplateStore>;
+		Snapshots: R2Bucket;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -16,7 +23,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ANTHROPIC_API_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "ANTHROPIC_API_KEY" | "SANDBOX_MAX_LIFETIME" | "SANDBOX_IDLE_TIMEOUT">> {}
 }
 
 // Begin runtime types